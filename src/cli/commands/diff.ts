@@ -0,0 +1,45 @@
+import { Command } from 'commander';
+import { EventHistoryManager } from '../../utils/event-history-manager';
+import { ChangesOutput } from '../../outputs';
+
+export const diffCommand = new Command('diff')
+  .description('Show events that are new, changed, cancelled or rescheduled')
+  .option('-s, --since <date>', 'Report changes after this date (default: changes made by the latest scrape)')
+  .option('-j, --json', 'Output as JSON')
+  .option('-w, --write', 'Also write the result to output/changes.json')
+  .action(async (options) => {
+    const historyManager = new EventHistoryManager();
+    const runs = await historyManager.getRuns();
+
+    if (runs.length === 0) {
+      console.error('No event history yet. Run a scrape first.');
+      process.exit(1);
+    }
+
+    let since: Date | null = null;
+    if (options.since) {
+      since = new Date(options.since);
+      if (isNaN(since.getTime())) {
+        console.error(`Invalid date: ${options.since}`);
+        process.exit(1);
+      }
+    } else {
+      // The baseline the latest scrape was compared against
+      since = runs[1] ?? null;
+    }
+
+    const changeSet = await historyManager.getChangesSince(since);
+
+    if (options.write) {
+      await new ChangesOutput().write(changeSet);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(changeSet, null, 2));
+      return;
+    }
+
+    console.log(historyManager.formatChangeSet(changeSet));
+  });
+
+export default diffCommand;
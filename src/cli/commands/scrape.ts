@@ -1,27 +1,61 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { ScraperRegistry } from '../../scrapers/registry';
 import { Event, ScraperResult, StalenessReport } from '../../types';
-import { writeOutputs, OutputFormat } from '../../outputs';
+import { writeOutputs, OutputFormat, ChangesOutput } from '../../outputs';
 import { deduplicator } from '../../utils/deduplicator';
 import { logger } from '../../utils/logger';
 import { VenueStatusManager } from '../../utils/venue-status-manager';
-import { closeBrowserClient } from '../../utils/browser-client';
+import { EventHistoryManager } from '../../utils/event-history-manager';
+import { closeBrowserClient, getBrowserClient } from '../../utils/browser-client';
+import { FixtureStore, setFixtureStore } from '../../utils/fixture-store';
+import { setDebugBundleWriter } from '../../utils/debug-bundle';
+import { mapWithConcurrency } from '../../utils/concurrency';
 
 export const scrapeCommand = new Command('scrape')
   .description('Scrape events from venues')
   .option('-a, --all', 'Scrape all enabled venues')
   .option('-v, --venue <id>', 'Scrape a specific venue')
-  .option('-o, --output <formats>', 'Output formats (json,csv,ics,markdown,all)', 'all')
+  .option('-o, --output <formats>', 'Output formats (json,csv,ics,markdown,html,rss,atom,all)', 'all')
+  .option('--site-url <url>', 'Public URL of the outputs, used as the RSS/Atom feed link (default: $SITE_URL)')
   .option('-d, --dry-run', 'Run without writing files')
   .option('--include-past', 'Include past events (default: only current/future events)')
   .option('--skip-stale', 'Skip venues recommended for disabling')
   .option('--staleness-report', 'Show detailed staleness report')
+  .option('-c, --concurrency <n>', 'Number of venues to scrape in parallel', positiveInteger, 1)
+  .option('--browser-pages <n>', 'Browser pages open at once across venues', positiveInteger, 2)
+  .option('--record [dir]', 'Save fetched pages as fixtures for offline replay (default: tests/fixtures)')
+  .option('--replay <dir>', 'Scrape from previously recorded fixtures instead of the network')
+  .option('--no-debug-bundles', 'Do not save debug bundles for failed or empty venues')
   .option('--verbose', 'Enable verbose logging')
   .action(async (options) => {
     if (options.verbose) {
       logger.level = 'debug';
     }
 
+    if (options.record && options.replay) {
+      console.error('--record and --replay cannot be used together');
+      process.exit(1);
+    }
+
+    if (options.replay) {
+      setFixtureStore(new FixtureStore({ mode: 'replay', dir: options.replay }));
+      console.log(`Replaying fixtures from ${options.replay}`);
+    } else if (options.record) {
+      const store = new FixtureStore({
+        mode: 'record',
+        dir: typeof options.record === 'string' ? options.record : undefined
+      });
+      setFixtureStore(store);
+      console.log(`Recording fixtures to ${store.dir}`);
+    }
+
+    if (options.dryRun || !options.debugBundles) {
+      setDebugBundleWriter(null);
+    }
+
+    // Create the shared browser client with the pool size before any venue uses it
+    getBrowserClient({ maxPages: options.browserPages });
+
     const registry = new ScraperRegistry();
     const statusManager = new VenueStatusManager();
     const results: ScraperResult[] = [];
@@ -77,19 +111,19 @@ export const scrapeCommand = new Command('scrape')
         }
       }
 
-      console.log(`Scraping ${configs.length} venues...\n`);
+      const concurrency: number = options.concurrency;
+      const parallelNote = concurrency > 1 ? ` (up to ${concurrency} in parallel)` : '';
+      console.log(`Scraping ${configs.length} venues${parallelNote}...\n`);
 
-      for (const config of configs) {
+      const outcomes = await mapWithConcurrency(configs, concurrency, async (config) => {
         const scraper = registry.createScraper(config.id);
         if (!scraper) {
           logger.warn(`Could not create scraper for ${config.id}`);
-          continue;
+          return null;
         }
 
-        process.stdout.write(`  ${config.name}... `);
         try {
           const result = await scraper.scrape();
-          results.push(result);
 
           if (result.success) {
             const futureEvents = statusManager.filterFutureEvents(result.events, scrapeDate);
@@ -101,22 +135,30 @@ export const scrapeCommand = new Command('scrape')
               scrapeDate
             );
 
+            console.log(`  ${config.name}... ${result.events.length} total, ${futureEvents.length} current/future`);
             const eventsToKeep = options.includePast ? result.events : futureEvents;
-            console.log(`${result.events.length} total, ${futureEvents.length} current/future`);
-            allEvents.push(...eventsToKeep);
-          } else {
-            await statusManager.updateVenueStatus(
-              config.id,
-              config.name,
-              [],
-              [],
-              scrapeDate
-            );
-            console.log(`failed: ${result.errors[0]?.message}`);
+            return { result, events: eventsToKeep };
           }
+
+          await statusManager.updateVenueStatus(
+            config.id,
+            config.name,
+            [],
+            [],
+            scrapeDate
+          );
+          console.log(`  ${config.name}... failed: ${result.errors[0]?.message}`);
+          return { result, events: [] };
         } catch (error) {
-          console.log(`error: ${error}`);
+          console.log(`  ${config.name}... error: ${error}`);
+          return null;
         }
+      });
+
+      for (const outcome of outcomes) {
+        if (!outcome) continue;
+        results.push(outcome.result);
+        allEvents.push(...outcome.events);
       }
     } else {
       console.error('Please specify --all or --venue <id>');
@@ -139,9 +181,10 @@ export const scrapeCommand = new Command('scrape')
       printStalenessOverview(stalenessReports);
     }
 
-    // Save venue status
-    if (!options.dryRun) {
+    // Save venue status (replayed pages say nothing about the live site)
+    if (!options.dryRun && !options.replay) {
       await statusManager.save();
+      await recordHistory(results, allEvents, scrapeDate);
     }
 
     // Write outputs
@@ -149,7 +192,7 @@ export const scrapeCommand = new Command('scrape')
       const formats = options.output.split(',') as OutputFormat[];
       console.log(`\nWriting outputs (${formats.join(', ')})...`);
 
-      const outputPaths = await writeOutputs(allEvents, { formats });
+      const outputPaths = await writeOutputs(allEvents, { formats, siteUrl: options.siteUrl ?? process.env.SITE_URL });
 
       console.log('\nOutput files:');
       for (const [format, path] of Object.entries(outputPaths)) {
@@ -177,6 +220,36 @@ export const scrapeCommand = new Command('scrape')
     }
   });
 
+/** Commander parser for counts such as --concurrency; rejects 0, negatives and non-numbers. */
+function positiveInteger(value: string): number {
+  if (!/^\d+$/.test(value.trim()) || Number(value) < 1) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return Number(value);
+}
+
+/**
+ * Merges this run into output/event-history.json and writes output/changes.json
+ * with what is new, changed, cancelled or rescheduled since the previous run.
+ */
+async function recordHistory(results: ScraperResult[], events: Event[], scrapeDate: Date): Promise<void> {
+  const historyManager = new EventHistoryManager();
+  // A multi-source venue with a failed source has an incomplete listing, so
+  // its missing events can't be told apart from that source's events
+  const scrapedVenueIds = results
+    .filter(r => r.success && (r.metadata.sources ?? []).every(source => source.success))
+    .map(r => r.metadata.venueId);
+
+  const changeSet = await historyManager.recordRun(events, scrapedVenueIds, scrapeDate);
+  await historyManager.save();
+
+  const changesPath = await new ChangesOutput().write(changeSet);
+  console.log(
+    `\nChanges since last run: ${changeSet.new.length} new, ${changeSet.changed.length} changed, ` +
+    `${changeSet.cancelled.length} cancelled, ${changeSet.rescheduled.length} rescheduled (${changesPath})`
+  );
+}
+
 function printSummary(results: ScraperResult[], events: Event[]): void {
   const successful = results.filter(r => r.success).length;
   const failed = results.filter(r => !r.success).length;
@@ -218,6 +291,16 @@ function printSummary(results: ScraperResult[], events: Event[]): void {
     }
   }
 
+  // Debug bundles of failed or empty venues
+  const bundles = results.flatMap(r => [r.metadata.debugBundle, ...(r.metadata.sources ?? []).map(s => s.debugBundle)])
+    .filter((bundle): bundle is string => !!bundle);
+  if (bundles.length > 0) {
+    console.log('\nDebug bundles:');
+    for (const bundle of bundles) {
+      console.log(`  ${bundle}`);
+    }
+  }
+
   // Warnings
   const allWarnings = results.flatMap(r => r.warnings);
   if (allWarnings.length > 0) {
@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import { ApiServer } from '../../server';
+import { logger } from '../../utils/logger';
+
+export const serveCommand = new Command('serve')
+  .description('Serve the latest scraped events over a local HTTP API')
+  .option('-p, --port <port>', 'Port to listen on', '3000')
+  .option('-H, --host <host>', 'Interface to bind', '127.0.0.1')
+  .option('-o, --output-dir <dir>', 'Directory containing events.json and venue-status.json', 'output')
+  .option('--verbose', 'Enable verbose logging')
+  .action(async (options) => {
+    logger.level = options.verbose ? 'debug' : 'warn';
+
+    const port = parseInt(options.port, 10);
+    if (isNaN(port) || port < 0 || port > 65535) {
+      console.error(`Invalid port: ${options.port}`);
+      process.exit(1);
+    }
+
+    const server = new ApiServer({ port, host: options.host, outputDir: options.outputDir });
+    const address = await server.start();
+
+    console.log(`Serving events at ${address}`);
+    console.log('  GET /events?from=&to=&venue=&type=&tag=');
+    console.log('  GET /events/:id');
+    console.log('  GET /venues');
+    console.log('  GET /venues/:id/status');
+    console.log('  GET /calendar.ics?from=&to=&venue=&type=&tag=');
+
+    const shutdown = async () => {
+      await server.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  });
+
+export default serveCommand;
@@ -0,0 +1,197 @@
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { ScraperRegistry } from '../../scrapers/registry';
+import { Event, VenueConfig } from '../../types';
+import { logger } from '../../utils/logger';
+import { FixtureStore, DEFAULT_FIXTURE_DIR, setFixtureStore } from '../../utils/fixture-store';
+import { diffEvents, isEmptyDiff, EventDiff } from '../../utils/event-diff';
+
+const DEFAULT_SNAPSHOT_DIR = path.join(process.cwd(), 'tests', 'snapshots');
+
+// Fields that legitimately differ between two runs over the same fixtures
+const VOLATILE_FIELDS = ['scrapedAt'];
+
+interface Snapshot {
+  venueId: string;
+  recordedAt: string;
+  events: Event[];
+}
+
+type TestOutcome = 'pass' | 'fail' | 'updated' | 'missing';
+
+export const testCommand = new Command('test')
+  .description('Replay recorded venue pages and compare parsed events against golden snapshots')
+  .argument('[venue-id]', 'Only test this venue')
+  .option('-f, --fixtures <dir>', 'Fixture directory', DEFAULT_FIXTURE_DIR)
+  .option('-s, --snapshots <dir>', 'Snapshot directory', DEFAULT_SNAPSHOT_DIR)
+  .option('-u, --update', 'Write current results as the new snapshots')
+  .option('--require-fixtures', 'Fail venues that have no recorded fixtures instead of skipping them')
+  .option('--verbose', 'Enable verbose logging')
+  .action(async (venueId: string | undefined, options) => {
+    logger.level = options.verbose ? 'debug' : 'warn';
+
+    const registry = new ScraperRegistry();
+    const fixtures = new FixtureStore({ mode: 'replay', dir: options.fixtures });
+    setFixtureStore(fixtures);
+
+    let configs = registry.getAllConfigs();
+    if (venueId) {
+      configs = configs.filter(c => c.id === venueId);
+      if (configs.length === 0) {
+        console.error(`Unknown venue: ${venueId}`);
+        process.exit(1);
+      }
+    }
+
+    const recordedVenues = new Set(fixtures.listVenues());
+    const outcomes = new Map<TestOutcome, number>();
+    const unrecorded: string[] = [];
+
+    for (const config of configs) {
+      if (!recordedVenues.has(config.id)) {
+        unrecorded.push(config.id);
+        if (options.requireFixtures) {
+          console.log(`[FAIL] ${config.id}: no fixtures (record them with scrape --venue ${config.id} --record)`);
+        }
+        continue;
+      }
+
+      const outcome = await testVenue(registry, fixtures, config, options);
+      outcomes.set(outcome, (outcomes.get(outcome) || 0) + 1);
+    }
+
+    setFixtureStore(null);
+
+    const failed = (outcomes.get('fail') || 0) + (outcomes.get('missing') || 0)
+      + (options.requireFixtures ? unrecorded.length : 0);
+    console.log('\n--- Results ---');
+    console.log(`Passed: ${outcomes.get('pass') || 0}`);
+    console.log(`Failed: ${failed}`);
+    if (outcomes.get('updated')) {
+      console.log(`Updated: ${outcomes.get('updated')}`);
+    }
+    if (unrecorded.length > 0) {
+      const label = options.requireFixtures ? 'No fixtures' : 'Skipped (no fixtures)';
+      console.log(`${label}: ${unrecorded.length} (${unrecorded.join(', ')})`);
+    } else {
+      console.log('Skipped (no fixtures): 0');
+    }
+
+    process.exit(failed > 0 ? 1 : 0);
+  });
+
+async function testVenue(
+  registry: ScraperRegistry,
+  fixtures: FixtureStore,
+  config: VenueConfig,
+  options: { snapshots: string; update?: boolean }
+): Promise<TestOutcome> {
+  const scraper = registry.createScraper(config.id);
+  if (!scraper) {
+    console.log(`[FAIL] ${config.id}: no scraper`);
+    return 'fail';
+  }
+
+  // Run at the time the pages were captured so relative dates resolve identically
+  const recordedAt = fixtures.getRecordedAt(config.id) ?? new Date();
+  const result = await withFrozenClock(recordedAt, () => scraper.scrape());
+
+  if (!result.success) {
+    console.log(`[FAIL] ${config.id}: ${result.errors[0]?.message}`);
+    return 'fail';
+  }
+
+  const events = toSnapshotEvents(result.events);
+  const snapshotPath = path.join(options.snapshots, `${config.id}.json`);
+
+  if (options.update) {
+    const snapshot: Snapshot = {
+      venueId: config.id,
+      recordedAt: recordedAt.toISOString(),
+      events
+    };
+    fs.mkdirSync(options.snapshots, { recursive: true });
+    fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2) + '\n', 'utf-8');
+    console.log(`[UPDATED] ${config.id}: ${events.length} events`);
+    return 'updated';
+  }
+
+  if (!fs.existsSync(snapshotPath)) {
+    console.log(`[FAIL] ${config.id}: no snapshot (run with --update to create one)`);
+    return 'missing';
+  }
+
+  const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as Snapshot;
+  const diff = diffEvents(snapshot.events, events, VOLATILE_FIELDS);
+
+  if (isEmptyDiff(diff)) {
+    console.log(`[OK] ${config.id}: ${events.length} events`);
+    return 'pass';
+  }
+
+  console.log(`[FAIL] ${config.id}:`);
+  printDiff(diff);
+  return 'fail';
+}
+
+function toSnapshotEvents(events: Event[]): Event[] {
+  return events
+    .map(event => {
+      const copy: Record<string, unknown> = { ...event };
+      for (const field of VOLATILE_FIELDS) {
+        delete copy[field];
+      }
+      return copy as Event;
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function printDiff(diff: EventDiff): void {
+  for (const event of diff.added) {
+    console.log(`  + ${event.id} ${event.title} (${event.date})`);
+  }
+  for (const event of diff.removed) {
+    console.log(`  - ${event.id} ${event.title} (${event.date})`);
+  }
+  for (const changed of diff.changed) {
+    console.log(`  ~ ${changed.id} ${changed.title}`);
+    for (const change of changed.changes) {
+      console.log(`      ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+    }
+  }
+}
+
+/**
+ * Replaces the global Date so that `new Date()` and `Date.now()` return a
+ * fixed instant while fn runs. Scrapers resolve "next Monday", missing years
+ * and recurring dates against the current time, so snapshots are only stable
+ * when replayed at the moment the fixtures were recorded.
+ */
+async function withFrozenClock<T>(now: Date, fn: () => Promise<T>): Promise<T> {
+  const RealDate = Date;
+  const fixed = now.getTime();
+
+  class FrozenDate extends RealDate {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) {
+        super(fixed);
+      } else {
+        super(...(args as [number, number]));
+      }
+    }
+
+    static now(): number {
+      return fixed;
+    }
+  }
+
+  global.Date = FrozenDate as DateConstructor;
+  try {
+    return await fn();
+  } finally {
+    global.Date = RealDate;
+  }
+}
+
+export default testCommand;
@@ -6,6 +6,9 @@ import { validateCommand } from './commands/validate';
 import { testScraperCommand } from './commands/test-scraper';
 import { listCommand } from './commands/list';
 import { statusCommand } from './commands/status';
+import { testCommand } from './commands/test';
+import { diffCommand } from './commands/diff';
+import { serveCommand } from './commands/serve';
 
 const program = new Command();
 
@@ -20,6 +23,9 @@ program.addCommand(validateCommand);
 program.addCommand(testScraperCommand);
 program.addCommand(listCommand);
 program.addCommand(statusCommand);
+program.addCommand(testCommand);
+program.addCommand(diffCommand);
+program.addCommand(serveCommand);
 
 // Set scrape as default command when no command specified
 program
@@ -1,12 +1,47 @@
 import * as cheerio from 'cheerio';
 import type { AnyNode } from 'domhandler';
-import { VenueConfig, Event, ScraperResult, ScraperError, VenueInfo } from '../types';
+import { addMonths, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  VenueConfig,
+  Event,
+  ScraperResult,
+  ScraperError,
+  VenueInfo,
+  Field,
+  Pagination,
+  Details,
+  DetailField
+} from '../types';
 import { HttpClient, httpClient } from '../utils/http-client';
-import { BrowserClient, getBrowserClient } from '../utils/browser-client';
+import {
+  BrowserClient,
+  BrowserPage,
+  CapturedResponse,
+  FetchOptions,
+  getBrowserClient
+} from '../utils/browser-client';
 import { EventNormalizer, eventNormalizer, RawEventData } from '../utils/event-normalizer';
+import { structuredDataExtractor } from '../utils/structured-data';
+import { jsonEventExtractor } from '../utils/json-events';
+import { fieldExtractor, FieldExtractOptions, IMAGE_ATTRS } from '../utils/field-extractor';
+import { dateParser, DEFAULT_TIMEZONE } from '../utils/date-parser';
 import { logger, createVenueLogger } from '../utils/logger';
+import { runInScrapeContext } from '../utils/scrape-context';
+import { DebugRecorder, getDebugBundleWriter } from '../utils/debug-bundle';
+import { getFixtureStore } from '../utils/fixture-store';
 import winston from 'winston';
 
+// Raw event field filled by each detail-page field
+const DETAIL_FIELD_KEYS: Record<DetailField, keyof RawEventData> = {
+  description: 'description',
+  time: 'startTime',
+  endTime: 'endTime',
+  price: 'price',
+  image: 'imageUrl',
+  location: 'location'
+};
+
 export abstract class BaseScraper {
   protected config: VenueConfig;
   protected http: HttpClient;
@@ -21,6 +56,48 @@ export abstract class BaseScraper {
   }
 
   async scrape(): Promise<ScraperResult> {
+    // Replayed fixtures are already on disk, so there is nothing to capture
+    const debug = getDebugBundleWriter() && !getFixtureStore()?.isReplay ? new DebugRecorder() : undefined;
+
+    try {
+      const result = await runInScrapeContext({ venueId: this.config.id, debug }, () => this.runScrape());
+      if (debug && (!result.success || result.events.length === 0)) {
+        await this.saveDebugBundle(result, debug);
+      }
+      return result;
+    } finally {
+      if (this.config.config?.useBrowser) {
+        await getBrowserClient().releaseContext(this.config.id);
+      }
+    }
+  }
+
+  /**
+   * Writes what the failed (or empty) scrape fetched to a debug bundle and
+   * points the result's metadata at it. Never fails the scrape itself.
+   */
+  private async saveDebugBundle(result: ScraperResult, debug: DebugRecorder): Promise<void> {
+    const writer = getDebugBundleWriter();
+    if (!writer) return;
+
+    try {
+      result.metadata.debugBundle = await writer.write({
+        venueId: this.config.id,
+        url: this.config.url,
+        reason: result.success ? 'no-events' : 'error',
+        errors: result.errors,
+        warnings: result.warnings,
+        selectors: this.config.selectors,
+        pages: debug.pages
+      });
+      this.logger.info(`Saved debug bundle to ${result.metadata.debugBundle}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Could not save debug bundle: ${message}`);
+    }
+  }
+
+  private async runScrape(): Promise<ScraperResult> {
     const startTime = Date.now();
     const errors: ScraperError[] = [];
     const warnings: string[] = [];
@@ -28,9 +105,11 @@ export abstract class BaseScraper {
     this.logger.info(`Starting scrape for ${this.config.name}`);
 
     try {
-      const html = await this.fetchContent();
-      const $ = cheerio.load(html);
-      const rawEvents = await this.parseEvents($);
+      const collected = await this.collectRawEvents(warnings);
+      const details = this.config.details;
+      const rawEvents = details?.enabled
+        ? await this.enrichFromDetailPages(collected, details, warnings)
+        : collected;
 
       this.logger.info(`Found ${rawEvents.length} raw events`);
 
@@ -39,7 +118,8 @@ export abstract class BaseScraper {
         const event = this.normalizer.normalizeEvent(
           rawEvent,
           this.getVenueInfo(),
-          this.config.id
+          this.config.id,
+          { recurrenceHorizonDays: this.config.config?.recurrenceHorizonDays }
         );
         if (event) {
           events.push(event);
@@ -89,16 +169,341 @@ export abstract class BaseScraper {
     }
   }
 
-  protected async fetchContent(): Promise<string> {
+  /**
+   * Produces the raw events for this venue. The default fetches the venue page
+   * (and further pages when pagination is configured), reads any schema.org
+   * events embedded in it and hands the page to parseEvents; API-backed
+   * scrapers override this instead.
+   */
+  protected async collectRawEvents(warnings: string[]): Promise<RawEventData[]> {
+    const pagination = this.config.pagination;
+    if (pagination?.loadMoreSelector && !this.config.config?.useBrowser) {
+      warnings.push('pagination.loadMoreSelector is ignored without useBrowser');
+    }
+    if (this.config.config?.browserSteps?.length && !this.config.config.useBrowser) {
+      warnings.push('config.browserSteps are ignored without useBrowser');
+    }
+    if (this.config.config?.captureResponses && !this.config.config.useBrowser) {
+      warnings.push('config.captureResponses is ignored without useBrowser');
+    }
+
+    let events: RawEventData[];
+    if (pagination && (pagination.nextSelector || pagination.urlTemplate)) {
+      events = await this.collectPages(pagination);
+    } else {
+      const fetched = await this.fetchPage();
+      events = await this.parsePage(cheerio.load(fetched.html), fetched.responses);
+    }
+
+    if (events.length === 0 && this.config.config?.structuredData === 'only') {
+      warnings.push('No schema.org events found on the page (structuredData: only)');
+    }
+    return events;
+  }
+
+  /**
+   * Walks the listing pages, dropping events already seen on an earlier page.
+   * Stops at maxPages, when there is no next page, or (with stopWhenEmpty)
+   * at the first page that adds nothing.
+   */
+  private async collectPages(pagination: Pagination): Promise<RawEventData[]> {
+    const events: RawEventData[] = [];
+    const seen = new Set<string>();
+    const visited = new Set<string>();
+    let url: string | null = pagination.urlTemplate ? this.pageUrl(pagination, 1) : this.config.url;
+
+    for (let page = 1; url && page <= pagination.maxPages && !visited.has(url); page++) {
+      visited.add(url);
+      this.logger.info(`Fetching page ${page}: ${url}`);
+
+      const fetched = await this.fetchPage(url);
+      const $ = cheerio.load(fetched.html);
+      const pageEvents = await this.parsePage($, fetched.responses);
+      const fresh = pageEvents.filter(event => {
+        const key = `${event.title?.toLowerCase()}|${event.date}|${event.startTime ?? ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      events.push(...fresh);
+      this.logger.debug(`Page ${page}: ${pageEvents.length} events, ${fresh.length} new`);
+
+      if (fresh.length === 0 && pagination.stopWhenEmpty) break;
+
+      url = pagination.urlTemplate
+        ? this.pageUrl(pagination, page + 1)
+        : this.nextPageLink($, pagination.nextSelector!, url);
+    }
+
+    return events;
+  }
+
+  private pageUrl(pagination: Pagination, page: number): string {
+    const timezone = this.config.config?.timezone || DEFAULT_TIMEZONE;
+    const month = addMonths(parseISO(formatInTimeZone(new Date(), timezone, 'yyyy-MM-01')), page - 1);
+    const url = pagination.urlTemplate!
+      .replace(/\{page\}/g, String(pagination.startPage + page - 1))
+      .replace(/\{year\}/g, format(month, 'yyyy'))
+      .replace(/\{month\}/g, format(month, 'MM'));
+    return new URL(url, this.config.url).href;
+  }
+
+  private nextPageLink($: cheerio.CheerioAPI, selector: string, currentUrl: string): string | null {
+    const href = $(selector).first().attr('href');
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) return null;
+    try {
+      return new URL(href, currentUrl).href;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Events on one fetched page: schema.org events as configured, merged with
+   * the events in captured responses or, when there are none, what
+   * parseEvents finds.
+   */
+  private async parsePage($: cheerio.CheerioAPI, responses: CapturedResponse[] = []): Promise<RawEventData[]> {
+    const mode = this.config.config?.structuredData ?? 'auto';
+
+    const structured = mode === 'off' ? [] : this.extractStructuredEvents($);
+    if (mode === 'only') {
+      return structured;
+    }
+
+    const captured = responses.length > 0 ? await this.parseResponses(responses, $) : [];
+    if (captured.length > 0) {
+      this.logger.info(`Found ${captured.length} events in ${responses.length} captured responses`);
+    }
+
+    const parsed = captured.length > 0 ? captured : await this.parseEvents($);
+    if (structured.length === 0) {
+      return parsed;
+    }
+
+    this.logger.info(`Found ${structured.length} events in structured data`);
+    return this.mergeStructuredEvents(structured, parsed);
+  }
+
+  /**
+   * Fetches each event's own page (once per URL, through the HTTP cache) and
+   * fills in the fields the listing left out.
+   */
+  private async enrichFromDetailPages(
+    events: RawEventData[],
+    details: Details,
+    warnings: string[]
+  ): Promise<RawEventData[]> {
+    const firstByUrl = new Map<string, RawEventData>();
+    for (const event of events) {
+      if (event.url && !firstByUrl.has(event.url) && this.isDetailUrl(event.url, details)) {
+        firstByUrl.set(event.url, event);
+      }
+    }
+
+    const urls = Array.from(firstByUrl.keys());
+    if (urls.length > details.maxPages) {
+      warnings.push(`Only enriching ${details.maxPages} of ${urls.length} detail pages (details.maxPages)`);
+    }
+
+    const found = new Map<string, Partial<RawEventData>>();
+    let failures = 0;
+    for (const url of urls.slice(0, details.maxPages)) {
+      try {
+        const $ = cheerio.load(await this.http.getCached(url));
+        found.set(url, this.extractDetails($, url, firstByUrl.get(url)!, details));
+      } catch (error) {
+        failures++;
+        this.logger.debug(`Could not fetch detail page ${url}: ${error}`);
+      }
+    }
+    if (failures > 0) {
+      warnings.push(`Could not fetch ${failures} detail pages`);
+    }
+    this.logger.info(`Enriched events from ${found.size} detail pages`);
+
+    return events.map(event => {
+      const extra = event.url ? found.get(event.url) : undefined;
+      if (!extra) return event;
+
+      const merged = { ...event };
+      for (const [field, key] of Object.entries(DETAIL_FIELD_KEYS) as [DetailField, keyof RawEventData][]) {
+        const value = extra[key];
+        if (value !== undefined && (!event[key] || details.overwrite.includes(field))) {
+          Object.assign(merged, { [key]: value });
+        }
+      }
+      return merged;
+    });
+  }
+
+  private isDetailUrl(url: string, details: Details): boolean {
+    try {
+      const target = new URL(url);
+      const listing = new URL(this.config.url);
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') return false;
+      if (target.href.split('#')[0] === listing.href.split('#')[0]) return false;
+      const host = (u: URL) => u.hostname.replace(/^www\./, '');
+      return !details.sameHostOnly || host(target) === host(listing);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Configured selectors win over the page's schema.org data, which is matched
+   * to the event by title when the page lists several.
+   */
+  private extractDetails(
+    $: cheerio.CheerioAPI,
+    url: string,
+    event: RawEventData,
+    details: Details
+  ): Partial<RawEventData> {
+    const fields: Partial<RawEventData> = {};
+
+    if (details.structuredData) {
+      const structured = structuredDataExtractor.extract($, {
+        baseUrl: url,
+        timezone: this.config.config?.timezone
+      });
+      const title = event.title?.toLowerCase().replace(/[^a-z0-9]/g, '');
+      const match = structured.find(s => s.title?.toLowerCase().replace(/[^a-z0-9]/g, '') === title)
+        ?? (structured.length === 1 ? structured[0] : undefined);
+      if (match) {
+        for (const key of Object.values(DETAIL_FIELD_KEYS)) {
+          if (match[key] !== undefined) {
+            Object.assign(fields, { [key]: match[key] });
+          }
+        }
+      }
+    }
+
+    const selectors = details.selectors;
+    const $page = $.root();
+    const fromSelectors: Partial<RawEventData> = {
+      description: this.extractField($, $page, selectors.description),
+      startTime: this.extractField($, $page, selectors.time),
+      endTime: this.extractField($, $page, selectors.endTime),
+      price: this.extractField($, $page, selectors.price),
+      imageUrl: this.extractField($, $page, selectors.image, { defaultAttrs: IMAGE_ATTRS, baseUrl: url }),
+      location: this.extractField($, $page, selectors.location)
+    };
+    for (const [key, value] of Object.entries(fromSelectors)) {
+      if (value !== undefined) {
+        Object.assign(fields, { [key]: value });
+      }
+    }
+
+    return fields;
+  }
+
+  protected extractStructuredEvents($: cheerio.CheerioAPI): RawEventData[] {
+    return structuredDataExtractor.extract($, {
+      baseUrl: this.config.url,
+      timezone: this.config.config?.timezone
+    });
+  }
+
+  /**
+   * Structured events take precedence: a selector-parsed event with the same
+   * title on the same day only fills in fields the structured one lacks.
+   */
+  private mergeStructuredEvents(structured: RawEventData[], parsed: RawEventData[]): RawEventData[] {
+    const parsedByKey = new Map<string, RawEventData>();
+    for (const event of parsed) {
+      const key = this.eventKey(event);
+      if (key && !parsedByKey.has(key)) {
+        parsedByKey.set(key, event);
+      }
+    }
+
+    const matched = new Set<RawEventData>();
+    const merged = structured.map(event => {
+      const key = this.eventKey(event);
+      const match = key ? parsedByKey.get(key) : undefined;
+      if (!match) return event;
+
+      matched.add(match);
+      const defined = Object.fromEntries(Object.entries(event).filter(([, value]) => value !== undefined));
+      return { ...match, ...defined };
+    });
+
+    return [...merged, ...parsed.filter(event => !matched.has(event))];
+  }
+
+  private eventKey(event: RawEventData): string | null {
+    if (!event.title || !event.date) return null;
+    const date = dateParser.parseDate(event.date);
+    if (!date) return null;
+
+    const timezone = this.config.config?.timezone || DEFAULT_TIMEZONE;
+    const { day } = dateParser.getWallClock(date, event.date, timezone);
+    const title = event.title.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return `${title}|${day.year}-${day.month}-${day.day}`;
+  }
+
+  protected async fetchContent(url: string = this.config.url): Promise<string> {
     if (this.config.config?.useBrowser) {
       this.logger.info('Using browser emulation for JavaScript-rendered content');
       const browser = getBrowserClient();
-      return browser.fetchContent(this.config.url, {
-        waitForSelector: this.config.config?.waitForSelector,
-        timeout: this.config.config?.timeout
+      return browser.fetchContent(url, this.browserFetchOptions());
+    }
+    return this.http.get(url);
+  }
+
+  /**
+   * Fetches a listing page along with the JSON responses captured while the
+   * browser loaded it (config.captureResponses). Without capture this is
+   * fetchContent, so scrapers overriding that keep working.
+   */
+  protected async fetchPage(url: string = this.config.url): Promise<BrowserPage> {
+    const capture = this.config.config?.captureResponses;
+    if (capture && this.config.config?.useBrowser) {
+      this.logger.info(`Using browser emulation, capturing responses matching ${capture.url}`);
+      return getBrowserClient().fetchPage(url, { ...this.browserFetchOptions(), capture });
+    }
+    return { html: await this.fetchContent(url), responses: [] };
+  }
+
+  private browserFetchOptions(): FetchOptions {
+    return {
+      waitForSelector: this.config.config?.waitForSelector,
+      timeout: this.config.config?.timeout,
+      loadMoreSelector: this.config.pagination?.loadMoreSelector,
+      maxLoadMore: this.config.pagination?.maxPages,
+      steps: this.config.config?.browserSteps,
+      blockResources: this.config.config?.blockResources,
+      pageTimeout: this.config.config?.pageTimeout
+    };
+  }
+
+  /**
+   * Events in the JSON responses captured with the page. The default finds
+   * event-like objects in any payload; scrapers for a known widget API can
+   * override this to map its responses exactly.
+   */
+  protected async parseResponses(responses: CapturedResponse[], _$: cheerio.CheerioAPI): Promise<RawEventData[]> {
+    const events: RawEventData[] = [];
+    const seen = new Set<string>();
+
+    for (const response of responses) {
+      const found = jsonEventExtractor.extract(response.body, {
+        baseUrl: this.config.url,
+        timezone: this.config.config?.timezone
       });
+      this.logger.debug(`${found.length} events in ${response.url}`);
+
+      // Widgets often request overlapping ranges (e.g. month and week views)
+      for (const event of found) {
+        const key = `${event.title?.toLowerCase()}|${event.date}|${event.startTime ?? ''}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        events.push(event);
+      }
     }
-    return this.http.get(this.config.url);
+
+    return events;
   }
 
   protected abstract parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]>;
@@ -111,7 +516,8 @@ export abstract class BaseScraper {
       state: this.config.venue.state,
       zip: this.config.venue.zip,
       url: this.config.url,
-      phone: this.config.venue.phone
+      phone: this.config.venue.phone,
+      timezone: this.config.config?.timezone
     };
   }
 
@@ -119,6 +525,19 @@ export abstract class BaseScraper {
     return $el.text().trim().replace(/\s+/g, ' ');
   }
 
+  /**
+   * Reads a configured selectors field (plain selector, rule or fallback list)
+   * from an event container.
+   */
+  protected extractField(
+    $: cheerio.CheerioAPI,
+    $scope: cheerio.Cheerio<AnyNode>,
+    field: Field | undefined,
+    options?: FieldExtractOptions
+  ): string | undefined {
+    return field ? fieldExtractor.extract($, $scope, field, options) : undefined;
+  }
+
   protected extractHref(
     $el: cheerio.Cheerio<AnyNode>,
     baseUrl?: string
@@ -1 +1,2 @@
 export * from './base-scraper';
+export * from './multi-source-scraper';
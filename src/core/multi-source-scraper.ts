@@ -0,0 +1,144 @@
+import * as cheerio from 'cheerio';
+import {
+  VenueConfig,
+  VenueSource,
+  Event,
+  ScraperResult,
+  ScraperError,
+  SourceMetadata
+} from '../types';
+import { RawEventData } from '../utils/event-normalizer';
+import { runInScrapeContext } from '../utils/scrape-context';
+import { BaseScraper } from './base-scraper';
+
+export type SourceScraperFactory = (source: VenueSource, config: VenueConfig) => BaseScraper | null;
+
+/**
+ * Scrapes a venue that publishes events on several pages (e.g. a calendar
+ * plus a separate music page). Each source is scraped by its own scraper
+ * against a config derived from the venue's, and the results are combined
+ * into a single result for the venue.
+ */
+export class MultiSourceScraper extends BaseScraper {
+  private createSourceScraper: SourceScraperFactory;
+
+  constructor(config: VenueConfig, createSourceScraper: SourceScraperFactory) {
+    super(config);
+    this.createSourceScraper = createSourceScraper;
+  }
+
+  async scrape(): Promise<ScraperResult> {
+    return runInScrapeContext({ venueId: this.config.id }, () => this.runSources());
+  }
+
+  private async runSources(): Promise<ScraperResult> {
+    const startTime = Date.now();
+    const events: Event[] = [];
+    const errors: ScraperError[] = [];
+    const warnings: string[] = [];
+    const sources: SourceMetadata[] = [];
+    const seen = new Set<string>();
+
+    const enabled = (this.config.sources ?? []).filter(source => source.enabled);
+    this.logger.info(`Starting scrape for ${this.config.name} (${enabled.length} sources)`);
+
+    for (const source of enabled) {
+      const config = this.sourceConfig(source);
+      const scraper = this.createSourceScraper(source, config);
+      if (!scraper) {
+        errors.push({
+          code: 'SOURCE_ERROR',
+          message: `[${source.id}] No scraper found (${source.scraper ?? config.platform})`
+        });
+        sources.push(this.sourceMetadata(source, config, false, 0, 0));
+        continue;
+      }
+
+      this.logger.info(`Scraping source ${source.id}: ${source.url}`);
+      const result = await scraper.scrape();
+
+      // The same event can be listed on more than one page; the first source wins
+      const fresh = result.events.filter(event => {
+        if (seen.has(event.id)) return false;
+        seen.add(event.id);
+        return true;
+      });
+      events.push(...fresh);
+      errors.push(...result.errors.map(error => ({ ...error, message: `[${source.id}] ${error.message}` })));
+      warnings.push(...result.warnings.map(warning => `[${source.id}] ${warning}`));
+      sources.push({
+        ...this.sourceMetadata(source, config, result.success, fresh.length, result.metadata.duration),
+        debugBundle: result.metadata.debugBundle
+      });
+    }
+
+    const success = sources.some(source => source.success);
+    this.logger.info(`Combined ${events.length} events from ${sources.filter(s => s.success).length}/${sources.length} sources`);
+
+    return {
+      success,
+      events: success ? events : [],
+      errors,
+      warnings,
+      metadata: {
+        venueId: this.config.id,
+        venueName: this.config.name,
+        url: this.config.url,
+        scrapedAt: new Date().toISOString(),
+        duration: Date.now() - startTime,
+        version: '1.0.0',
+        sources
+      }
+    };
+  }
+
+  /**
+   * The venue's config with the source's URL, scraper settings and platform
+   * options swapped in. Venue details, timezone and recurrence settings are
+   * shared by every source.
+   */
+  private sourceConfig(source: VenueSource): VenueConfig {
+    return {
+      ...this.config,
+      url: source.url,
+      platform: source.platform ?? this.config.platform,
+      selectors: source.selectors ?? this.config.selectors,
+      config: { ...this.config.config, ...this.definedValues(source.config ?? {}) },
+      pagination: source.pagination,
+      details: source.details ?? this.config.details,
+      wordpress: source.wordpress ?? this.config.wordpress,
+      squarespace: source.squarespace ?? this.config.squarespace,
+      shopify: source.shopify ?? this.config.shopify,
+      sources: undefined
+    };
+  }
+
+  private definedValues<T extends object>(values: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
+
+  private sourceMetadata(
+    source: VenueSource,
+    config: VenueConfig,
+    success: boolean,
+    eventCount: number,
+    duration: number
+  ): SourceMetadata {
+    return {
+      id: source.id,
+      name: source.name,
+      url: source.url,
+      platform: source.scraper ?? config.platform,
+      success,
+      eventCount,
+      duration
+    };
+  }
+
+  protected async parseEvents(_$: cheerio.CheerioAPI): Promise<RawEventData[]> {
+    // Events come from the source scrapers
+    return [];
+  }
+}
@@ -3,3 +3,4 @@ export * from './core';
 export * from './scrapers';
 export * from './outputs';
 export * from './utils';
+export * from './server';
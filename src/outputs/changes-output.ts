@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import { EventChangeSet } from '../types';
+import { logger } from '../utils/logger';
+
+export interface ChangesOutputOptions {
+  outputDir?: string;
+  filename?: string;
+}
+
+export interface ChangesOutputData {
+  metadata: {
+    version: string;
+    generatedAt: string;
+    since: string | null;
+    counts: {
+      new: number;
+      changed: number;
+      cancelled: number;
+      rescheduled: number;
+    };
+  };
+  new: EventChangeSet['new'];
+  changed: EventChangeSet['changed'];
+  cancelled: EventChangeSet['cancelled'];
+  rescheduled: EventChangeSet['rescheduled'];
+}
+
+/**
+ * Writes the change set from the event history (new, changed, cancelled and
+ * rescheduled events since the previous run) to changes.json.
+ */
+export class ChangesOutput {
+  private outputDir: string;
+  private filename: string;
+
+  constructor(options: ChangesOutputOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'output');
+    this.filename = options.filename || 'changes.json';
+  }
+
+  async write(changeSet: EventChangeSet): Promise<string> {
+    if (!fs.existsSync(this.outputDir)) {
+      fs.mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const data: ChangesOutputData = {
+      metadata: {
+        version: '1.0.0',
+        generatedAt: changeSet.generatedAt,
+        since: changeSet.since,
+        counts: {
+          new: changeSet.new.length,
+          changed: changeSet.changed.length,
+          cancelled: changeSet.cancelled.length,
+          rescheduled: changeSet.rescheduled.length
+        }
+      },
+      new: changeSet.new,
+      changed: changeSet.changed,
+      cancelled: changeSet.cancelled,
+      rescheduled: changeSet.rescheduled
+    };
+
+    const outputPath = path.join(this.outputDir, this.filename);
+    fs.writeFileSync(outputPath, JSON.stringify(data, null, 2), 'utf-8');
+    logger.info(`Wrote changes to ${outputPath}`);
+
+    return outputPath;
+  }
+}
+
+export const changesOutput = new ChangesOutput();
+export default changesOutput;
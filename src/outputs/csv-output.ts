@@ -39,6 +39,9 @@ export class CsvOutput {
       date: event.date,
       startTime: event.startTime || '',
       endTime: event.endTime || '',
+      start: event.start || '',
+      end: event.end || '',
+      allDay: event.allDay ? 'yes' : 'no',
       venueName: event.venue.name,
       venueAddress: event.venue.address || '',
       venueCity: event.venue.city || '',
@@ -46,6 +49,7 @@ export class CsvOutput {
       venueZip: event.venue.zip || '',
       venueUrl: event.venue.url || '',
       venuePhone: event.venue.phone || '',
+      venueTimezone: event.venue.timezone || '',
       type: event.type || '',
       tags: event.tags.join('; '),
       url: event.url || '',
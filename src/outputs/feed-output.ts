@@ -0,0 +1,274 @@
+import fs from 'fs';
+import path from 'path';
+import { format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Event, EventRevision } from '../types';
+import { logger } from '../utils/logger';
+import { DEFAULT_TIMEZONE } from '../utils/date-parser';
+import { EventHistoryManager } from '../utils/event-history-manager';
+
+// Appended to event ids to form globally unique item ids
+const ID_DOMAIN = 'event-search';
+
+// Channel link when no siteUrl is given: where `serve` listens by default
+const DEFAULT_SITE_URL = 'http://localhost:3000/';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+export type FeedFormat = 'rss' | 'atom';
+
+export interface FeedOutputOptions {
+  outputDir?: string;
+  format?: FeedFormat;
+  filename?: string;
+  title?: string;
+  siteUrl?: string; // channel link for the combined feed and venues without a url
+  venueFeeds?: boolean; // also write feeds/<venue-id>.<ext> per venue
+}
+
+interface FeedInfo {
+  id: string;
+  title: string;
+  link: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function safeUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * RSS 2.0 or Atom 1.0 feed of upcoming events, soonest first. Items link to
+ * the event page, carry the image as an enclosure and describe date, time,
+ * venue and price.
+ */
+export class FeedOutput {
+  private outputDir: string;
+  private format: FeedFormat;
+  private filename: string;
+  private title: string;
+  private siteUrl: string;
+  private venueFeeds: boolean;
+
+  constructor(options: FeedOutputOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'output');
+    this.format = options.format || 'rss';
+    this.filename = options.filename || (this.format === 'rss' ? 'events.rss' : 'events.atom');
+    this.title = options.title || 'Local Events';
+    this.siteUrl = safeUrl(options.siteUrl) ?? DEFAULT_SITE_URL;
+    this.venueFeeds = options.venueFeeds !== false;
+  }
+
+  async write(events: Event[]): Promise<string> {
+    // Ensure output directory exists
+    if (!fs.existsSync(this.outputDir)) {
+      fs.mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const upcoming = this.upcomingEvents(events);
+    const revisions = await new EventHistoryManager(this.outputDir).getRevisions();
+
+    const outputPath = path.join(this.outputDir, this.filename);
+    const feed = { id: 'all', title: this.title, link: this.siteUrl };
+    fs.writeFileSync(outputPath, this.render(upcoming, feed, revisions), 'utf-8');
+    logger.info(`Wrote ${upcoming.length} events to ${outputPath}`);
+
+    if (this.venueFeeds) {
+      const count = this.writeVenueFeeds(upcoming, revisions);
+      logger.info(`Wrote ${count} venue ${this.format} feeds to ${path.join(this.outputDir, 'feeds')}`);
+    }
+
+    return outputPath;
+  }
+
+  private writeVenueFeeds(events: Event[], revisions: Map<string, EventRevision>): number {
+    const byVenue = new Map<string, Event[]>();
+    for (const event of events) {
+      if (!byVenue.has(event.source)) {
+        byVenue.set(event.source, []);
+      }
+      byVenue.get(event.source)!.push(event);
+    }
+
+    const feedDir = path.join(this.outputDir, 'feeds');
+    fs.mkdirSync(feedDir, { recursive: true });
+
+    // Drop this format's feeds for venues that no longer have upcoming events
+    const extension = path.extname(this.filename);
+    for (const file of fs.readdirSync(feedDir)) {
+      if (file.endsWith(extension) && !byVenue.has(path.basename(file, extension))) {
+        fs.rmSync(path.join(feedDir, file));
+      }
+    }
+
+    for (const [venueId, venueEvents] of byVenue) {
+      const venue = venueEvents[0].venue;
+      const feed = { id: venueId, title: `${venue.name} Events`, link: safeUrl(venue.url) ?? this.siteUrl };
+      fs.writeFileSync(path.join(feedDir, `${venueId}${extension}`), this.render(venueEvents, feed, revisions), 'utf-8');
+    }
+
+    return byVenue.size;
+  }
+
+  private render(events: Event[], feed: FeedInfo, revisions: Map<string, EventRevision>): string {
+    return this.format === 'rss'
+      ? this.renderRss(events, feed, revisions)
+      : this.renderAtom(events, feed, revisions);
+  }
+
+  private renderRss(events: Event[], feed: FeedInfo, revisions: Map<string, EventRevision>): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0">',
+      '<channel>',
+      `<title>${escapeXml(feed.title)}</title>`,
+      `<link>${escapeXml(feed.link)}</link>`,
+      `<description>${escapeXml(`Upcoming events: ${feed.title}`)}</description>`,
+      `<lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`
+    ];
+
+    for (const event of events) {
+      const link = safeUrl(event.url);
+      const image = safeUrl(event.imageUrl);
+
+      lines.push('<item>');
+      lines.push(`<title>${escapeXml(this.itemTitle(event))}</title>`);
+      if (link) {
+        lines.push(`<link>${escapeXml(link)}</link>`);
+      }
+      lines.push(`<guid isPermaLink="false">${event.id}@${ID_DOMAIN}</guid>`);
+      lines.push(`<pubDate>${new Date(this.updatedAt(event, revisions)).toUTCString()}</pubDate>`);
+      lines.push(`<description>${escapeXml(this.describe(event))}</description>`);
+      for (const category of this.categories(event)) {
+        lines.push(`<category>${escapeXml(category)}</category>`);
+      }
+      if (image) {
+        lines.push(`<enclosure url="${escapeXml(image)}" length="0" type="${this.imageType(image)}"/>`);
+      }
+      lines.push('</item>');
+    }
+
+    lines.push('</channel>', '</rss>', '');
+    return lines.join('\n');
+  }
+
+  private renderAtom(events: Event[], feed: FeedInfo, revisions: Map<string, EventRevision>): string {
+    const updated = events
+      .map(e => this.updatedAt(e, revisions))
+      .sort()
+      .pop() ?? new Date().toISOString();
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `<id>urn:${ID_DOMAIN}:feed:${escapeXml(feed.id)}</id>`,
+      `<title>${escapeXml(feed.title)}</title>`,
+      `<updated>${updated}</updated>`,
+      `<link href="${escapeXml(feed.link)}"/>`,
+      `<author><name>${escapeXml(this.title)}</name></author>`
+    ];
+
+    for (const event of events) {
+      const link = safeUrl(event.url);
+      const image = safeUrl(event.imageUrl);
+
+      lines.push('<entry>');
+      lines.push(`<id>urn:${ID_DOMAIN}:${event.id}</id>`);
+      lines.push(`<title>${escapeXml(this.itemTitle(event))}</title>`);
+      lines.push(`<updated>${this.updatedAt(event, revisions)}</updated>`);
+      if (link) {
+        lines.push(`<link rel="alternate" href="${escapeXml(link)}"/>`);
+      }
+      if (image) {
+        lines.push(`<link rel="enclosure" href="${escapeXml(image)}" type="${this.imageType(image)}"/>`);
+      }
+      lines.push(`<author><name>${escapeXml(event.venue.name)}</name></author>`);
+      lines.push(`<summary type="html">${escapeXml(this.describe(event))}</summary>`);
+      for (const category of this.categories(event)) {
+        lines.push(`<category term="${escapeXml(category)}"/>`);
+      }
+      lines.push('</entry>');
+    }
+
+    lines.push('</feed>', '');
+    return lines.join('\n');
+  }
+
+  private upcomingEvents(events: Event[]): Event[] {
+    const now = new Date();
+    return events
+      .filter(event => {
+        const timezone = event.venue.timezone || DEFAULT_TIMEZONE;
+        const lastDay = (event.end ?? event.start ?? event.date).substring(0, 10);
+        return lastDay >= formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+      })
+      .sort((a, b) => (a.start ?? a.date).localeCompare(b.start ?? b.date));
+  }
+
+  private itemTitle(event: Event): string {
+    const day = format(new Date(`${(event.start ?? event.date).substring(0, 10)}T00:00:00`), 'EEE, MMM d');
+    return `${event.title} (${day}, ${event.venue.name})`;
+  }
+
+  /**
+   * HTML body shared by RSS descriptions and Atom summaries.
+   */
+  private describe(event: Event): string {
+    const day = format(new Date(`${(event.start ?? event.date).substring(0, 10)}T00:00:00`), 'EEEE, MMMM d, yyyy');
+    const time = event.startTime
+      ? ` at ${escapeXml(event.startTime)}${event.endTime ? ` - ${escapeXml(event.endTime)}` : ''}`
+      : '';
+    const venue = event.venue;
+    const address = [venue.address, venue.city, venue.state].filter(Boolean).join(', ');
+
+    const parts = [`<p><strong>${day}</strong>${time}</p>`];
+    parts.push(`<p>${escapeXml(venue.name)}${address ? `<br/>${escapeXml(address)}` : ''}</p>`);
+    if (event.description) {
+      parts.push(`<p>${escapeXml(event.description)}</p>`);
+    }
+    if (event.price) {
+      parts.push(`<p>Price: ${escapeXml(event.price)}</p>`);
+    }
+    return parts.join('');
+  }
+
+  private categories(event: Event): string[] {
+    return [...new Set([event.type || 'other', ...event.tags])];
+  }
+
+  /**
+   * Last time the event changed according to the event history, falling back
+   * to when it was scraped.
+   */
+  private updatedAt(event: Event, revisions: Map<string, EventRevision>): string {
+    return revisions.get(event.id)?.lastModified ?? event.scrapedAt;
+  }
+
+  private imageType(url: string): string {
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() ?? '';
+    return IMAGE_TYPES[extension] ?? 'image/jpeg';
+  }
+}
+
+export const feedOutput = new FeedOutput();
+export default feedOutput;
@@ -0,0 +1,453 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  format,
+  addMonths,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval
+} from 'date-fns';
+import { Event } from '../types';
+import { logger } from '../utils/logger';
+import { recurrenceEngine } from '../utils/recurrence';
+
+const STYLESHEET = `
+body { font-family: system-ui, sans-serif; margin: 0; color: #222; background: #fafafa; }
+header { background: #2d3a4a; color: #fff; padding: 1rem 2rem; }
+header a { color: #fff; margin-right: 1.5rem; text-decoration: none; }
+header .site { font-weight: bold; font-size: 1.2rem; }
+main { max-width: 1100px; margin: 0 auto; padding: 1.5rem 2rem; }
+a { color: #1f5fa8; }
+.muted { color: #666; font-size: 0.9rem; }
+.month-nav { display: flex; justify-content: space-between; align-items: center; }
+table.calendar { width: 100%; border-collapse: collapse; table-layout: fixed; }
+table.calendar th { padding: 0.4rem; background: #e8ecf1; }
+table.calendar td { vertical-align: top; height: 6.5rem; border: 1px solid #ddd; padding: 0.3rem; background: #fff; }
+table.calendar td.outside { background: #f2f2f2; color: #aaa; }
+table.calendar .day { font-weight: bold; font-size: 0.85rem; }
+table.calendar ul { list-style: none; margin: 0.2rem 0 0; padding: 0; font-size: 0.8rem; }
+table.calendar li { margin-bottom: 0.2rem; }
+ul.events { list-style: none; padding: 0; }
+ul.events li { background: #fff; border: 1px solid #ddd; border-radius: 4px; padding: 0.6rem 0.8rem; margin-bottom: 0.5rem; }
+.tag { display: inline-block; background: #e8ecf1; border-radius: 3px; padding: 0 0.4rem; margin-right: 0.3rem; font-size: 0.8rem; }
+`.trim();
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Only allows http/https URLs so scraped links can't inject javascript: hrefs.
+ */
+function safeHref(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * The event's local calendar day (yyyy-MM-dd). Zoned start strings begin with it.
+ */
+function eventDay(event: Event): string {
+  return (event.start ?? event.date).substring(0, 10);
+}
+
+function localDate(day: string): Date {
+  return new Date(`${day}T00:00:00`);
+}
+
+export interface HtmlOutputOptions {
+  outputDir?: string;
+  siteDir?: string; // relative to outputDir
+  siteTitle?: string;
+}
+
+/**
+ * Static site: a month calendar (index.html and calendar/<yyyy-MM>.html),
+ * a page per venue, per event type and per tag, and a detail page per event
+ * with schema.org JSON-LD. All links are relative, so the directory can be
+ * served from any path (e.g. a GitHub Pages project site).
+ */
+export class HtmlOutput {
+  private outputDir: string;
+  private siteDir: string;
+  private siteTitle: string;
+
+  constructor(options: HtmlOutputOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'output');
+    this.siteDir = options.siteDir || 'site';
+    this.siteTitle = options.siteTitle || 'Local Events';
+  }
+
+  async write(events: Event[]): Promise<string> {
+    const siteRoot = path.join(this.outputDir, this.siteDir);
+
+    // Start clean so pages for events that are gone don't linger
+    fs.rmSync(siteRoot, { recursive: true, force: true });
+    fs.mkdirSync(siteRoot, { recursive: true });
+
+    const sorted = [...events].sort((a, b) => (a.start ?? a.date).localeCompare(b.start ?? b.date));
+    const pages = this.generatePages(sorted);
+
+    for (const [relativePath, content] of pages) {
+      const filePath = path.join(siteRoot, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf-8');
+    }
+
+    logger.info(`Wrote ${pages.size} pages to ${siteRoot}`);
+    return path.join(siteRoot, 'index.html');
+  }
+
+  private generatePages(events: Event[]): Map<string, string> {
+    const pages = new Map<string, string>();
+    pages.set('style.css', STYLESHEET + '\n');
+
+    // Calendar: one page per month from the first to the last event
+    const months = this.listMonths(events);
+    const byDay = this.groupByDay(events);
+    months.forEach((month, i) => {
+      pages.set(`calendar/${month}.html`, this.generateMonthPage(month, byDay, months[i - 1], months[i + 1], '../'));
+    });
+    const currentMonth = format(new Date(), 'yyyy-MM');
+    const homeMonth = months.find(m => m >= currentMonth) ?? months[months.length - 1] ?? currentMonth;
+    const homeIndex = months.indexOf(homeMonth);
+    pages.set('index.html', this.generateMonthPage(homeMonth, byDay, months[homeIndex - 1], months[homeIndex + 1], ''));
+
+    // Venues
+    const byVenue = this.groupBy(events, e => e.source);
+    pages.set('venues/index.html', this.generateIndexPage('Venues', [...byVenue.entries()]
+      .map(([id, venueEvents]) => ({ href: `${id}.html`, label: venueEvents[0].venue.name, count: venueEvents.length }))
+      .sort((a, b) => a.label.localeCompare(b.label))));
+    for (const [id, venueEvents] of byVenue) {
+      pages.set(`venues/${id}.html`, this.generateVenuePage(venueEvents));
+    }
+
+    // Types
+    const byType = this.groupBy(events, e => e.type || 'other');
+    pages.set('types/index.html', this.generateIndexPage('Event Types', [...byType.entries()]
+      .map(([type, typeEvents]) => ({ href: `${type}.html`, label: capitalize(type), count: typeEvents.length }))
+      .sort((a, b) => b.count - a.count)));
+    for (const [type, typeEvents] of byType) {
+      pages.set(`types/${type}.html`, this.generateListPage(`${capitalize(type)} Events`, typeEvents, '../'));
+    }
+
+    // Tags
+    const byTag = new Map<string, { label: string; events: Event[] }>();
+    for (const event of events) {
+      for (const tag of event.tags) {
+        const slug = slugify(tag);
+        const group = byTag.get(slug) ?? { label: tag, events: [] };
+        group.events.push(event);
+        byTag.set(slug, group);
+      }
+    }
+    pages.set('tags/index.html', this.generateIndexPage('Tags', [...byTag.entries()]
+      .map(([slug, group]) => ({ href: `${slug}.html`, label: group.label, count: group.events.length }))
+      .sort((a, b) => a.label.localeCompare(b.label))));
+    for (const [slug, group] of byTag) {
+      pages.set(`tags/${slug}.html`, this.generateListPage(`Tagged "${group.label}"`, group.events, '../'));
+    }
+
+    // Event details
+    for (const event of events) {
+      pages.set(`events/${event.id}.html`, this.generateEventPage(event));
+    }
+
+    return pages;
+  }
+
+  private generateMonthPage(
+    month: string,
+    byDay: Map<string, Event[]>,
+    previous: string | undefined,
+    next: string | undefined,
+    root: string
+  ): string {
+    const first = localDate(`${month}-01`);
+    const days = eachDayOfInterval({
+      start: startOfWeek(startOfMonth(first)),
+      end: endOfWeek(endOfMonth(first))
+    });
+
+    const rows: string[] = [];
+    for (let i = 0; i < days.length; i += 7) {
+      const cells = days.slice(i, i + 7).map(date => {
+        const day = format(date, 'yyyy-MM-dd');
+        if (format(date, 'yyyy-MM') !== month) {
+          return `<td class="outside"><span class="day">${format(date, 'd')}</span></td>`;
+        }
+        const items = (byDay.get(day) ?? []).map(event => {
+          const time = event.startTime ? `${escapeHtml(event.startTime)} ` : '';
+          return `<li>${time}<a href="${root}events/${event.id}.html">${escapeHtml(event.title)}</a></li>`;
+        });
+        const list = items.length > 0 ? `<ul>${items.join('')}</ul>` : '';
+        return `<td><span class="day">${format(date, 'd')}</span>${list}</td>`;
+      });
+      rows.push(`<tr>${cells.join('')}</tr>`);
+    }
+
+    const link = (target: string | undefined, label: string) => target
+      ? `<a href="${root}calendar/${target}.html">${label}</a>`
+      : '<span></span>';
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => `<th>${d}</th>`).join('');
+
+    const body = [
+      `<div class="month-nav">${link(previous, '&larr; Previous')}<h1>${format(first, 'MMMM yyyy')}</h1>${link(next, 'Next &rarr;')}</div>`,
+      `<table class="calendar"><thead><tr>${weekdays}</tr></thead><tbody>${rows.join('\n')}</tbody></table>`
+    ].join('\n');
+
+    return this.renderPage(format(first, 'MMMM yyyy'), body, root);
+  }
+
+  private generateVenuePage(events: Event[]): string {
+    const venue = events[0].venue;
+    const details: string[] = [];
+
+    const address = [venue.address, venue.city, [venue.state, venue.zip].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ');
+    if (address) {
+      details.push(`<p>${escapeHtml(address)}</p>`);
+    }
+    if (venue.phone) {
+      details.push(`<p><a href="tel:${escapeHtml(venue.phone.replace(/[^\d+]/g, ''))}">${escapeHtml(venue.phone)}</a></p>`);
+    }
+    const website = safeHref(venue.url);
+    if (website) {
+      details.push(`<p><a href="${escapeHtml(website)}">${escapeHtml(website)}</a></p>`);
+    }
+
+    const body = [
+      `<h1>${escapeHtml(venue.name)}</h1>`,
+      ...details,
+      `<h2>Upcoming events (${events.length})</h2>`,
+      this.renderEventList(events, '../', false)
+    ].join('\n');
+
+    return this.renderPage(venue.name, body, '../');
+  }
+
+  private generateListPage(title: string, events: Event[], root: string): string {
+    const body = [
+      `<h1>${escapeHtml(title)}</h1>`,
+      `<p class="muted">${events.length} events</p>`,
+      this.renderEventList(events, root, true)
+    ].join('\n');
+
+    return this.renderPage(title, body, root);
+  }
+
+  private generateIndexPage(title: string, entries: { href: string; label: string; count: number }[]): string {
+    const items = entries.map(entry =>
+      `<li><a href="${entry.href}">${escapeHtml(entry.label)}</a> <span class="muted">(${entry.count})</span></li>`
+    );
+    const body = `<h1>${escapeHtml(title)}</h1>\n<ul>${items.join('\n')}</ul>`;
+    return this.renderPage(title, body, '../');
+  }
+
+  private generateEventPage(event: Event): string {
+    const root = '../';
+    const lines: string[] = [`<h1>${escapeHtml(event.title)}</h1>`];
+
+    const when = format(localDate(eventDay(event)), 'EEEE, MMMM d, yyyy');
+    const time = event.startTime
+      ? ` at ${escapeHtml(event.startTime)}${event.endTime ? ` &ndash; ${escapeHtml(event.endTime)}` : ''}`
+      : '';
+    lines.push(`<p><strong>${when}</strong>${time}</p>`);
+
+    if (event.recurringPattern) {
+      const rule = recurrenceEngine.parsePattern(event.recurringPattern);
+      const schedule = rule ? recurrenceEngine.describe(rule) : event.recurringPattern;
+      lines.push(`<p>Repeats ${escapeHtml(schedule)}</p>`);
+    }
+
+    lines.push(`<p><a href="${root}venues/${event.source}.html">${escapeHtml(event.venue.name)}</a>`
+      + (event.venue.address ? `<br>${escapeHtml([event.venue.address, event.venue.city, event.venue.state].filter(Boolean).join(', '))}` : '')
+      + '</p>');
+
+    const image = safeHref(event.imageUrl);
+    if (image) {
+      lines.push(`<p><img src="${escapeHtml(image)}" alt="" style="max-width: 100%; max-height: 400px;"></p>`);
+    }
+    if (event.description) {
+      lines.push(`<p>${escapeHtml(event.description)}</p>`);
+    }
+    if (event.price) {
+      lines.push(`<p>Price: ${escapeHtml(event.price)}</p>`);
+    }
+
+    const link = safeHref(event.url);
+    if (link) {
+      lines.push(`<p><a href="${escapeHtml(link)}">Event details on the venue's site</a></p>`);
+    }
+
+    lines.push(this.renderTags(event, root));
+
+    const head = `<script type="application/ld+json">${this.toJsonLd(event)}</script>`;
+    return this.renderPage(event.title, lines.join('\n'), root, head);
+  }
+
+  private renderEventList(events: Event[], root: string, showVenue: boolean): string {
+    const items = events.map(event => {
+      const when = format(localDate(eventDay(event)), 'EEE, MMM d');
+      const time = event.startTime ? ` &middot; ${escapeHtml(event.startTime)}` : '';
+      const venue = showVenue
+        ? ` &middot; <a href="${root}venues/${event.source}.html">${escapeHtml(event.venue.name)}</a>`
+        : '';
+      return `<li><a href="${root}events/${event.id}.html"><strong>${escapeHtml(event.title)}</strong></a>`
+        + `<br><span class="muted">${when}${time}${venue}</span></li>`;
+    });
+
+    return `<ul class="events">\n${items.join('\n')}\n</ul>`;
+  }
+
+  private renderTags(event: Event, root: string): string {
+    const type = event.type || 'other';
+    const links = [
+      `<a class="tag" href="${root}types/${type}.html">${escapeHtml(capitalize(type))}</a>`,
+      ...event.tags.map(tag => `<a class="tag" href="${root}tags/${slugify(tag)}.html">${escapeHtml(tag)}</a>`)
+    ];
+    return `<p>${links.join('')}</p>`;
+  }
+
+  private renderPage(title: string, body: string, root: string, head: string = ''): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - ${escapeHtml(this.siteTitle)}</title>
+<link rel="stylesheet" href="${root}style.css">
+${head}
+</head>
+<body>
+<header>
+<a class="site" href="${root}index.html">${escapeHtml(this.siteTitle)}</a>
+<a href="${root}venues/index.html">Venues</a>
+<a href="${root}types/index.html">Types</a>
+<a href="${root}tags/index.html">Tags</a>
+</header>
+<main>
+${body}
+<p class="muted">Last updated ${escapeHtml(format(new Date(), 'MMMM d, yyyy \'at\' h:mm a'))}</p>
+</main>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * schema.org/Event markup for search engines and calendar tools.
+   */
+  private toJsonLd(event: Event): string {
+    const venue = event.venue;
+    const data: Record<string, unknown> = {
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: event.title,
+      startDate: event.start ?? eventDay(event),
+      endDate: event.end,
+      description: event.description,
+      image: safeHref(event.imageUrl) ?? undefined,
+      url: safeHref(event.url) ?? undefined,
+      eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+      location: {
+        '@type': 'Place',
+        name: venue.name,
+        telephone: venue.phone,
+        address: {
+          '@type': 'PostalAddress',
+          streetAddress: venue.address,
+          addressLocality: venue.city,
+          addressRegion: venue.state,
+          postalCode: venue.zip,
+          addressCountry: 'US'
+        }
+      }
+    };
+
+    const price = event.price?.match(/\$\s*(\d+(?:\.\d{2})?)/);
+    if (price) {
+      data.offers = { '@type': 'Offer', price: price[1], priceCurrency: 'USD', url: data.url };
+    } else if (event.price && /\bfree\b/i.test(event.price)) {
+      data.offers = { '@type': 'Offer', price: '0', priceCurrency: 'USD', url: data.url };
+    }
+
+    // "<" is escaped so descriptions can't close the script element
+    return JSON.stringify(data).replace(/</g, '\\u003c');
+  }
+
+  private listMonths(events: Event[]): string[] {
+    const days = events.flatMap(e => this.eventDays(e)).sort();
+    if (days.length === 0) {
+      return [];
+    }
+
+    const months: string[] = [];
+    const last = days[days.length - 1].substring(0, 7);
+    for (let date = localDate(`${days[0].substring(0, 7)}-01`); format(date, 'yyyy-MM') <= last; date = addMonths(date, 1)) {
+      months.push(format(date, 'yyyy-MM'));
+    }
+    return months;
+  }
+
+  private groupByDay(events: Event[]): Map<string, Event[]> {
+    const byDay = new Map<string, Event[]>();
+    for (const event of events) {
+      for (const day of this.eventDays(event)) {
+        if (!byDay.has(day)) {
+          byDay.set(day, []);
+        }
+        byDay.get(day)!.push(event);
+      }
+    }
+    return byDay;
+  }
+
+  /**
+   * Recurring events appear on every expanded occurrence.
+   */
+  private eventDays(event: Event): string[] {
+    return event.occurrences?.length
+      ? event.occurrences.map(o => o.substring(0, 10))
+      : [eventDay(event)];
+  }
+
+  private groupBy(events: Event[], key: (event: Event) => string): Map<string, Event[]> {
+    const groups = new Map<string, Event[]>();
+    for (const event of events) {
+      const k = key(event);
+      if (!groups.has(k)) {
+        groups.set(k, []);
+      }
+      groups.get(k)!.push(event);
+    }
+    return groups;
+  }
+}
+
+export const htmlOutput = new HtmlOutput();
+export default htmlOutput;
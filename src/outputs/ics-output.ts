@@ -1,79 +1,122 @@
 import fs from 'fs';
 import path from 'path';
-import icalGenerator, { ICalCalendar, ICalEventData } from 'ical-generator';
-import { Event } from '../types';
+import icalGenerator, { ICalEventData } from 'ical-generator';
+import { Event, EventRevision } from '../types';
 import { logger } from '../utils/logger';
+import { dateParser, DEFAULT_TIMEZONE } from '../utils/date-parser';
+import { EventHistoryManager } from '../utils/event-history-manager';
+
+// Assumed length of events that have no end time
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
 
 export interface IcsOutputOptions {
   outputDir?: string;
   filename?: string;
   calendarName?: string;
+  feeds?: boolean; // also write one feed per venue and per event type
+}
+
+export interface IcsFeed {
+  name: string;
+  path: string;
+  eventCount: number;
 }
 
 export class IcsOutput {
   private outputDir: string;
   private filename: string;
   private calendarName: string;
+  private feeds: boolean;
 
   constructor(options: IcsOutputOptions = {}) {
     this.outputDir = options.outputDir || path.join(process.cwd(), 'output');
     this.filename = options.filename || 'events.ics';
     this.calendarName = options.calendarName || 'Local Events';
+    this.feeds = options.feeds !== false;
   }
 
+  /**
+   * Writes the combined feed and, unless disabled, ics/venues/<venue-id>.ics and
+   * ics/types/<type>.ics. Returns the path of the combined feed.
+   */
   async write(events: Event[]): Promise<string> {
     // Ensure output directory exists
     if (!fs.existsSync(this.outputDir)) {
       fs.mkdirSync(this.outputDir, { recursive: true });
     }
 
-    const calendar = icalGenerator({
-      name: this.calendarName,
-      timezone: 'America/Los_Angeles'
-    });
+    // SEQUENCE/LAST-MODIFIED come from the event history kept next to the outputs
+    const revisions = await new EventHistoryManager(this.outputDir).getRevisions();
+
+    const outputPath = path.join(this.outputDir, this.filename);
+    fs.writeFileSync(outputPath, this.render(events, this.calendarName, revisions), 'utf-8');
+    logger.info(`Wrote ${events.length} events to ${outputPath}`);
+
+    if (this.feeds) {
+      const feeds = this.writeFeeds(events, revisions);
+      logger.info(`Wrote ${feeds.length} venue and type feeds to ${path.join(this.outputDir, 'ics')}`);
+    }
+
+    return outputPath;
+  }
+
+  /**
+   * Builds the calendar text without touching the filesystem.
+   */
+  render(
+    events: Event[],
+    calendarName: string = this.calendarName,
+    revisions: Map<string, EventRevision> = new Map()
+  ): string {
+    // No calendar-wide timezone: each timed event carries its venue's TZID
+    const calendar = icalGenerator({ name: calendarName });
 
     for (const event of events) {
-      const icalEvent = this.eventToIcal(event);
+      const icalEvent = this.eventToIcal(event, revisions.get(event.id));
       if (icalEvent) {
         calendar.createEvent(icalEvent);
       }
     }
 
-    const outputPath = path.join(this.outputDir, this.filename);
-    const content = calendar.toString();
+    return calendar.toString();
+  }
 
-    fs.writeFileSync(outputPath, content, 'utf-8');
-    logger.info(`Wrote ${events.length} events to ${outputPath}`);
+  private writeFeeds(events: Event[], revisions: Map<string, EventRevision>): IcsFeed[] {
+    const groups = new Map<string, { name: string; events: Event[] }>();
+    const addTo = (key: string, name: string, event: Event) => {
+      const group = groups.get(key) ?? { name, events: [] };
+      group.events.push(event);
+      groups.set(key, group);
+    };
 
-    return outputPath;
+    for (const event of events) {
+      addTo(path.join('venues', `${event.source}.ics`), `${event.venue.name} Events`, event);
+      const type = event.type || 'other';
+      addTo(path.join('types', `${type}.ics`), `${this.calendarName}: ${type.charAt(0).toUpperCase()}${type.slice(1)}`, event);
+    }
+
+    const feedDir = path.join(this.outputDir, 'ics');
+    // Start clean so venues or types that no longer have events don't keep stale feeds
+    fs.rmSync(feedDir, { recursive: true, force: true });
+
+    const feeds: IcsFeed[] = [];
+    for (const [relativePath, group] of groups) {
+      const feedPath = path.join(feedDir, relativePath);
+      fs.mkdirSync(path.dirname(feedPath), { recursive: true });
+      fs.writeFileSync(feedPath, this.render(group.events, group.name, revisions), 'utf-8');
+      feeds.push({ name: group.name, path: feedPath, eventCount: group.events.length });
+    }
+
+    return feeds;
   }
 
-  private eventToIcal(event: Event): ICalEventData | null {
+  private eventToIcal(event: Event, revision?: EventRevision): ICalEventData | null {
     try {
-      const startDate = new Date(event.date);
-
-      // If we have a start time, apply it
-      if (event.startTime) {
-        const timeParts = this.parseTime(event.startTime);
-        if (timeParts) {
-          startDate.setHours(timeParts.hours, timeParts.minutes, 0, 0);
-        }
-      }
-
-      // Calculate end date
-      let endDate = new Date(startDate);
-      if (event.endTime) {
-        const timeParts = this.parseTime(event.endTime);
-        if (timeParts) {
-          endDate.setHours(timeParts.hours, timeParts.minutes, 0, 0);
-        }
-      } else {
-        // Default to 2 hours if no end time
-        endDate = new Date(startDate.getTime() + 2 * 60 * 60 * 1000);
-      }
+      const timing = event.start ? this.zonedTiming(event) : this.guessTiming(event);
 
       // Build location string
       const locationParts = [event.venue.name];
+      if (event.location && event.location !== event.venue.name) locationParts.unshift(event.location);
       if (event.venue.address) locationParts.push(event.venue.address);
       if (event.venue.city && event.venue.state) {
         locationParts.push(`${event.venue.city}, ${event.venue.state}`);
@@ -88,13 +131,21 @@ export class IcsOutput {
       if (event.tags.length > 0) descParts.push(`Tags: ${event.tags.join(', ')}`);
 
       return {
+        // The UID is the bare event id, as it always was, so subscribers don't get
+        // duplicates. Ids hash title, venue and date (the pattern for recurring
+        // series), so the UID survives re-scrapes.
         id: event.id,
-        start: startDate,
-        end: endDate,
+        ...timing,
+        sequence: revision?.sequence ?? 0,
+        lastModified: revision ? new Date(revision.lastModified) : undefined,
+        // Keep DTSTAMP stable between runs so unchanged feeds don't churn
+        stamp: revision ? new Date(revision.lastModified) : undefined,
         summary: event.title,
         description: descParts.join('\n\n'),
         location,
-        url: event.url
+        url: event.url,
+        // Only zoned events have a reliable first occurrence to repeat from
+        repeating: event.rrule && event.start ? event.rrule : undefined
       };
     } catch (error) {
       logger.warn(`Could not convert event to iCal: ${event.title} - ${error}`);
@@ -102,6 +153,61 @@ export class IcsOutput {
     }
   }
 
+  /**
+   * Uses the normalizer's zoned start/end. Times are passed as wall-clock strings
+   * with a TZID so clients show them in the venue's timezone.
+   */
+  private zonedTiming(event: Event): Pick<ICalEventData, 'start' | 'end' | 'allDay' | 'timezone'> {
+    const start = event.start!;
+
+    if (event.allDay) {
+      return { start: start.substring(0, 10), allDay: true };
+    }
+
+    const wallClock = (iso: string) => iso.substring(0, 19);
+    const end = event.end
+      ? event.end
+      : dateParser.toZonedISOString(
+        new Date(new Date(start).getTime() + DEFAULT_DURATION_MS),
+        event.venue.timezone || DEFAULT_TIMEZONE
+      );
+
+    return {
+      start: wallClock(start),
+      end: wallClock(end),
+      timezone: event.venue.timezone || DEFAULT_TIMEZONE
+    };
+  }
+
+  /**
+   * Fallback for events normalized before start/end existed.
+   */
+  private guessTiming(event: Event): Pick<ICalEventData, 'start' | 'end'> {
+    const startDate = new Date(event.date);
+
+    // If we have a start time, apply it
+    if (event.startTime) {
+      const timeParts = this.parseTime(event.startTime);
+      if (timeParts) {
+        startDate.setHours(timeParts.hours, timeParts.minutes, 0, 0);
+      }
+    }
+
+    // Calculate end date
+    let endDate = new Date(startDate);
+    if (event.endTime) {
+      const timeParts = this.parseTime(event.endTime);
+      if (timeParts) {
+        endDate.setHours(timeParts.hours, timeParts.minutes, 0, 0);
+      }
+    } else {
+      // Default to 2 hours if no end time
+      endDate = new Date(startDate.getTime() + DEFAULT_DURATION_MS);
+    }
+
+    return { start: startDate, end: endDate };
+  }
+
   private parseTime(timeStr: string): { hours: number; minutes: number } | null {
     // Try parsing "7:00 PM" or "19:00" formats
     const match12 = timeStr.match(/(\d{1,2}):?(\d{2})?\s*(am|pm)/i);
@@ -2,30 +2,36 @@ export * from './json-output';
 export * from './csv-output';
 export * from './ics-output';
 export * from './markdown-output';
+export * from './html-output';
+export * from './feed-output';
+export * from './changes-output';
 
 import { Event } from '../types';
 import { JsonOutput, JsonOutputOptions } from './json-output';
 import { CsvOutput, CsvOutputOptions } from './csv-output';
 import { IcsOutput, IcsOutputOptions } from './ics-output';
 import { MarkdownOutput, MarkdownOutputOptions } from './markdown-output';
+import { HtmlOutput, HtmlOutputOptions } from './html-output';
+import { FeedOutput, FeedOutputOptions } from './feed-output';
 import { logger } from '../utils/logger';
 
-export type OutputFormat = 'json' | 'csv' | 'ics' | 'markdown' | 'all';
+export type OutputFormat = 'json' | 'csv' | 'ics' | 'markdown' | 'html' | 'rss' | 'atom' | 'all';
 
 export interface OutputOptions {
   outputDir?: string;
   formats?: OutputFormat[];
+  siteUrl?: string; // where the outputs are published; links the RSS/Atom feeds
 }
 
 export async function writeOutputs(
   events: Event[],
   options: OutputOptions = {}
 ): Promise<Record<string, string>> {
-  const { outputDir, formats = ['json', 'csv', 'ics', 'markdown'] } = options;
+  const { outputDir, siteUrl, formats = ['json', 'csv', 'ics', 'markdown', 'html', 'rss', 'atom'] } = options;
   const results: Record<string, string> = {};
 
   const formatList = formats.includes('all')
-    ? ['json', 'csv', 'ics', 'markdown']
+    ? ['json', 'csv', 'ics', 'markdown', 'html', 'rss', 'atom']
     : formats;
 
   for (const format of formatList) {
@@ -51,6 +57,21 @@ export async function writeOutputs(
           results.markdown = await writer.write(events);
           break;
         }
+        case 'html': {
+          const writer = new HtmlOutput({ outputDir });
+          results.html = await writer.write(events);
+          break;
+        }
+        case 'rss': {
+          const writer = new FeedOutput({ outputDir, format: 'rss', siteUrl });
+          results.rss = await writer.write(events);
+          break;
+        }
+        case 'atom': {
+          const writer = new FeedOutput({ outputDir, format: 'atom', siteUrl });
+          results.atom = await writer.write(events);
+          break;
+        }
       }
     } catch (error) {
       logger.error(`Failed to write ${format} output: ${error}`);
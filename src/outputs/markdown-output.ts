@@ -3,6 +3,10 @@ import path from 'path';
 import { format } from 'date-fns';
 import { Event } from '../types';
 import { logger } from '../utils/logger';
+import { recurrenceEngine } from '../utils/recurrence';
+
+// Upcoming dates shown per recurring event
+const MAX_LISTED_OCCURRENCES = 6;
 
 /**
  * Validates and sanitizes a URL for safe inclusion in Markdown.
@@ -72,6 +76,14 @@ export class MarkdownOutput {
     lines.push('');
     lines.push(this.generateEventsByDate(events));
 
+    // Recurring events with their upcoming dates
+    const recurringSection = this.generateRecurringEvents(events);
+    if (recurringSection) {
+      lines.push('## Recurring Events');
+      lines.push('');
+      lines.push(recurringSection);
+    }
+
     // Events by Venue
     lines.push('## Events by Venue');
     lines.push('');
@@ -145,6 +157,36 @@ export class MarkdownOutput {
     return lines.join('\n');
   }
 
+  private generateRecurringEvents(events: Event[]): string {
+    const recurring = events
+      .filter(e => e.recurringPattern && e.occurrences && e.occurrences.length > 0)
+      .sort((a, b) => a.venue.name.localeCompare(b.venue.name) || a.title.localeCompare(b.title));
+
+    if (recurring.length === 0) return '';
+
+    const lines: string[] = [];
+
+    for (const event of recurring) {
+      const rule = recurrenceEngine.parsePattern(event.recurringPattern!);
+      const schedule = rule ? recurrenceEngine.describe(rule) : event.recurringPattern;
+      const time = event.startTime ? ` at ${event.startTime}` : '';
+
+      // Occurrences are zoned ISO strings; the first 10 characters are the local date
+      const upcoming = event.occurrences!
+        .slice(0, MAX_LISTED_OCCURRENCES)
+        .map(o => format(new Date(`${o.substring(0, 10)}T00:00:00`), 'MMM d'));
+      const more = event.occurrences!.length > MAX_LISTED_OCCURRENCES
+        ? `, ...${event.occurrences!.length - MAX_LISTED_OCCURRENCES} more`
+        : '';
+
+      lines.push(`- **${event.title}** - ${event.venue.name}, ${schedule}${time}`);
+      lines.push(`  - Next: ${upcoming.join(', ')}${more}`);
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
   private generateEventsByVenue(events: Event[]): string {
     // Group by venue
     const byVenue = new Map<string, Event[]>();
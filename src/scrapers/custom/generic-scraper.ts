@@ -1,10 +1,12 @@
 import * as cheerio from 'cheerio';
 import { BaseScraper } from '../../core/base-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
+import { IMAGE_ATTRS, LINK_ATTRS } from '../../utils/field-extractor';
 
 /**
  * Generic scraper that uses selectors from venue config to parse events.
  * Used for venues with "custom" platform that don't have a specific scraper.
+ * Each field may be a plain selector or an extraction rule (see FieldRuleSchema).
  */
 export class GenericScraper extends BaseScraper {
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
@@ -20,28 +22,28 @@ export class GenericScraper extends BaseScraper {
       const $event = $(element);
 
       const title = selectors.title
-        ? this.extractText($event.find(selectors.title).first())
+        ? this.extractField($, $event, selectors.title)
         : this.extractText($event.find('h1, h2, h3, h4, .title, [class*="title"]').first());
 
       const date = selectors.date
-        ? this.extractText($event.find(selectors.date).first())
+        ? this.extractField($, $event, selectors.date)
         : this.extractText($event.find('time, .date, [class*="date"]').first());
 
-      const description = selectors.description
-        ? this.extractText($event.find(selectors.description).first())
-        : undefined;
-
-      const url = this.extractHref(
-        $event.find('a').first(),
-        this.config.url
-      );
+      const url = selectors.link
+        ? this.extractField($, $event, selectors.link, { defaultAttrs: LINK_ATTRS, baseUrl: this.config.url })
+        : this.extractHref($event.find('a').first(), this.config.url);
 
       if (title && title.length > 2) {
         events.push({
           title,
           date: date || undefined,
-          description,
-          url
+          startTime: this.extractField($, $event, selectors.time),
+          endTime: this.extractField($, $event, selectors.endTime),
+          description: this.extractField($, $event, selectors.description),
+          url,
+          imageUrl: this.extractField($, $event, selectors.image, { defaultAttrs: IMAGE_ATTRS, baseUrl: this.config.url }),
+          price: this.extractField($, $event, selectors.price),
+          location: this.extractField($, $event, selectors.location)
         });
       }
     });
@@ -5,3 +5,4 @@ export * from './shopify';
 export * from './spothopper';
 export * from './wix';
 export * from './custom';
+export * from './plugin-loader';
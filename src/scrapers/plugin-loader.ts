@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { VenueConfig } from '../types';
+import { BaseScraper } from '../core/base-scraper';
+import { logger } from '../utils/logger';
+
+export type ScraperClass = new (config: VenueConfig) => BaseScraper;
+
+export const DEFAULT_PLUGIN_DIR = path.join(process.cwd(), 'plugins');
+// Extra plugin directories, separated like PATH
+export const PLUGIN_DIRS_ENV = 'SCRAPER_PLUGIN_DIRS';
+export const PLUGIN_PACKAGE_PREFIX = 'event-scraper-plugin-';
+
+export interface PluginLoaderOptions {
+  dirs?: string[]; // directories whose modules are plugins (default: ./plugins plus $SCRAPER_PLUGIN_DIRS)
+  packages?: boolean; // also load event-scraper-plugin-* packages from node_modules (default: true)
+  nodeModulesDir?: string;
+}
+
+export interface ScraperPlugin {
+  key: string; // what a venue's customParser refers to
+  scraperClass: ScraperClass;
+  source: string; // module path, for messages
+}
+
+/**
+ * Discovers out-of-tree scrapers. A plugin is a module in a plugin directory,
+ * or an npm package named `event-scraper-plugin-*` (optionally scoped), that
+ * exports either `scrapers: { [key]: ScraperClass }` or a default scraper
+ * class, keyed by the file or package name minus the prefix.
+ */
+export class PluginLoader {
+  private dirs: string[];
+  private packages: boolean;
+  private nodeModulesDir: string;
+
+  constructor(options: PluginLoaderOptions = {}) {
+    this.dirs = options.dirs ?? [
+      DEFAULT_PLUGIN_DIR,
+      ...(process.env[PLUGIN_DIRS_ENV] || '').split(path.delimiter).filter(Boolean)
+    ];
+    this.packages = options.packages ?? true;
+    this.nodeModulesDir = options.nodeModulesDir || path.join(process.cwd(), 'node_modules');
+  }
+
+  load(): ScraperPlugin[] {
+    const modules = [
+      ...this.dirs.flatMap(dir => this.findDirectoryModules(dir)),
+      ...(this.packages ? this.findPackages() : [])
+    ];
+
+    return modules.flatMap(({ modulePath, name }) => this.loadModule(modulePath, name));
+  }
+
+  private findDirectoryModules(dir: string): { modulePath: string; name: string }[] {
+    if (!fs.existsSync(dir)) return [];
+
+    // .ts plugins only load when a TypeScript loader (e.g. ts-node) is registered
+    const extensions = ['.js', '.cjs', ...(require.extensions['.ts'] ? ['.ts'] : [])];
+
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory()
+        || (extensions.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')))
+      .map(entry => ({
+        modulePath: path.resolve(dir, entry.name),
+        name: entry.isDirectory() ? entry.name : path.basename(entry.name, path.extname(entry.name))
+      }));
+  }
+
+  private findPackages(): { modulePath: string; name: string }[] {
+    if (!fs.existsSync(this.nodeModulesDir)) return [];
+
+    const found: { modulePath: string; name: string }[] = [];
+    for (const entry of fs.readdirSync(this.nodeModulesDir)) {
+      const scopes = entry.startsWith('@')
+        ? fs.readdirSync(path.join(this.nodeModulesDir, entry)).map(name => path.join(entry, name))
+        : [entry];
+      for (const packageName of scopes) {
+        const name = path.basename(packageName);
+        if (!name.startsWith(PLUGIN_PACKAGE_PREFIX)) continue;
+        found.push({
+          modulePath: path.join(this.nodeModulesDir, packageName),
+          name: name.slice(PLUGIN_PACKAGE_PREFIX.length)
+        });
+      }
+    }
+    return found;
+  }
+
+  private loadModule(modulePath: string, name: string): ScraperPlugin[] {
+    let exported: Record<string, unknown>;
+    try {
+      exported = require(modulePath);
+    } catch (error) {
+      logger.error(`Failed to load scraper plugin ${modulePath}: ${error}`);
+      return [];
+    }
+
+    const candidates: [string, unknown][] = exported.scrapers && typeof exported.scrapers === 'object'
+      ? Object.entries(exported.scrapers as Record<string, unknown>)
+      : [[name, exported.default ?? exported]];
+
+    const plugins: ScraperPlugin[] = [];
+    for (const [key, value] of candidates) {
+      if (!isScraperClass(value)) {
+        logger.error(`Scraper plugin ${modulePath} (${key}) does not export a class extending BaseScraper`);
+        continue;
+      }
+      plugins.push({ key, scraperClass: value, source: modulePath });
+    }
+    return plugins;
+  }
+}
+
+/**
+ * True for classes extending BaseScraper. A packaged plugin may resolve its own
+ * copy of this library, whose BaseScraper is a different object, so a base
+ * class named BaseScraper with the same abstract surface also counts.
+ */
+export function isScraperClass(value: unknown): value is ScraperClass {
+  if (typeof value !== 'function' || !value.prototype) return false;
+  if (value.prototype instanceof BaseScraper) return true;
+
+  for (let proto = Object.getPrototypeOf(value.prototype); proto; proto = Object.getPrototypeOf(proto)) {
+    if (proto.constructor?.name === 'BaseScraper') {
+      return typeof proto.scrape === 'function' && typeof value.prototype.parseEvents === 'function';
+    }
+  }
+  return false;
+}
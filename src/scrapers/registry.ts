@@ -1,19 +1,19 @@
 import fs from 'fs';
 import path from 'path';
-import { VenueConfig, validateVenueConfig } from '../types';
+import { VenueConfig, VenueSource, validateVenueConfig } from '../types';
 import { BaseScraper } from '../core/base-scraper';
+import { MultiSourceScraper } from '../core/multi-source-scraper';
 import { logger } from '../utils/logger';
+import { PluginLoader, PluginLoaderOptions, ScraperClass } from './plugin-loader';
 
 // Import all scrapers
-import { WordPressScraper, MindscapeScraper, HappyDayzScraper, HighHandScraper, PourChoiceScraper } from './wordpress';
+import { WordPressScraper, MindscapeScraper, HappyDayzScraper, PourChoiceScraper } from './wordpress';
 import { SquarespaceScraper, OmakaseScraper } from './squarespace';
 import { ShopifyScraper } from './shopify';
 import { SpotHopperScraper } from './spothopper';
 import { WixScraper, MoonrakerScraper, GoathouseScraper } from './wix';
 import { BuenosAiresScraper, MoksaScraper, AuburnSraScraper, KneeDeepScraper, GenericScraper } from './custom';
 
-type ScraperClass = new (config: VenueConfig) => BaseScraper;
-
 const SCRAPER_MAP: Record<string, ScraperClass> = {
   // Platform-based scrapers
   'wordpress': WordPressScraper,
@@ -33,21 +33,42 @@ const SCRAPER_MAP: Record<string, ScraperClass> = {
   'moonraker-brewing': MoonrakerScraper,
   'happy-dayz-vineyard': HappyDayzScraper,
   'goathouse-brewing': GoathouseScraper,
-  'high-hand-brewing': HighHandScraper,
   'auburn-sra': AuburnSraScraper,
   'knee-deep-brewing': KneeDeepScraper,
   'pour-choice': PourChoiceScraper
 };
 
+// Keys registered by plugins, and the module that registered each
+const PLUGIN_SOURCES = new Map<string, string>();
+
 export class ScraperRegistry {
   private configs: Map<string, VenueConfig> = new Map();
   private configDir: string;
 
-  constructor(configDir?: string) {
+  constructor(configDir?: string, pluginOptions?: PluginLoaderOptions) {
     this.configDir = configDir || path.join(process.cwd(), 'config', 'venues');
+    this.loadPlugins(pluginOptions);
     this.loadConfigs();
   }
 
+  /**
+   * Registers out-of-tree scrapers so venues can name them in customParser.
+   * Plugins can't replace built-in scrapers.
+   */
+  private loadPlugins(options?: PluginLoaderOptions): void {
+    for (const plugin of new PluginLoader(options).load()) {
+      const registeredBy = PLUGIN_SOURCES.get(plugin.key);
+      if (SCRAPER_MAP[plugin.key] && registeredBy !== plugin.source) {
+        logger.warn(`Scraper plugin ${plugin.source} ignored: "${plugin.key}" is already registered${registeredBy ? ` by ${registeredBy}` : ''}`);
+        continue;
+      }
+
+      SCRAPER_MAP[plugin.key] = plugin.scraperClass;
+      PLUGIN_SOURCES.set(plugin.key, plugin.source);
+      logger.debug(`Loaded scraper plugin: ${plugin.key} (${plugin.source})`);
+    }
+  }
+
   private loadConfigs(): void {
     if (!fs.existsSync(this.configDir)) {
       logger.warn(`Config directory not found: ${this.configDir}`);
@@ -93,21 +114,42 @@ export class ScraperRegistry {
       return null;
     }
 
+    if (config.sources?.length) {
+      return new MultiSourceScraper(config, (source, sourceConfig) => this.createSourceScraper(source, sourceConfig));
+    }
+
     // Try venue-specific scraper first
     let ScraperClass = SCRAPER_MAP[venueId];
 
+    // Then the custom parser, which may come from a plugin
+    if (!ScraperClass && config.customParser) {
+      ScraperClass = SCRAPER_MAP[config.customParser];
+      if (!ScraperClass) {
+        logger.warn(`Custom parser "${config.customParser}" for ${venueId} is not registered; using the ${config.platform} scraper`);
+      }
+    }
+
     // Fall back to platform scraper
     if (!ScraperClass) {
       ScraperClass = SCRAPER_MAP[config.platform];
     }
 
-    // Fall back to custom parser if specified
-    if (!ScraperClass && config.customParser) {
-      ScraperClass = SCRAPER_MAP[config.customParser];
+    if (!ScraperClass) {
+      logger.error(`No scraper found for venue ${venueId} (platform: ${config.platform})`);
+      return null;
     }
 
+    return new ScraperClass(config);
+  }
+
+  /**
+   * Sources use the scraper they name, else their platform's scraper; a
+   * venue-specific scraper only applies to a source that names it.
+   */
+  private createSourceScraper(source: VenueSource, config: VenueConfig): BaseScraper | null {
+    const ScraperClass = source.scraper ? SCRAPER_MAP[source.scraper] : SCRAPER_MAP[config.platform];
     if (!ScraperClass) {
-      logger.error(`No scraper found for venue ${venueId} (platform: ${config.platform})`);
+      logger.error(`No scraper found for source ${config.id}/${source.id} (${source.scraper ?? config.platform})`);
       return null;
     }
 
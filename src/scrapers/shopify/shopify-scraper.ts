@@ -1,9 +1,305 @@
 import * as cheerio from 'cheerio';
 import type { AnyNode } from 'domhandler';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 import { BaseScraper } from '../../core/base-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
+import { DEFAULT_TIMEZONE } from '../../utils/date-parser';
+import { ShopifyOptions, ShopifyOptionsSchema } from '../../types';
+
+const PAGE_SIZE = 250; // products.json maximum
+
+const ISO_DATE_PATTERN = /\b(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2})?(?:Z|[+-]\d{2}:?\d{2})?)?\b/;
+const MONTH_DATE_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b/i;
+// M/D or M/D/YY(YY) with a real month and day, not part of a longer number
+// run ("1/2/3/4") or a fraction ("1/2 lb", "1/2 off")
+const NUMERIC_DATE_PATTERN = /(?<![\d/])(0?[1-9]|1[0-2])\/(0?[1-9]|[12]\d|3[01])(?:\/(\d{4}|\d{2}))?(?![\d/])(?!\s*(?:lbs?|oz|off|price|barrel|bbl)\b)/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// A yearless date is taken to be the one nearest today; if that has passed,
+// the product is a past event that is still listed
+const NEAREST_YEAR_DAYS = 183;
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?![a-z])/i;
+// Tags such as "date:2026-03-14" or "event-date_March 14"
+const DATE_TAG_PATTERN = /^(?:event[-_ ]?)?date\s*[:_-]\s*(.+)$/i;
+
+interface ShopifyVariant {
+  id: number;
+  title: string;
+  price: string | number; // "15.00" in products.json, cents in /products/<handle>.js
+  available?: boolean;
+}
+
+interface ShopifyProduct {
+  id: number;
+  title: string;
+  handle: string;
+  body_html?: string; // products.json
+  description?: string; // /products/<handle>.js
+  tags?: string[] | string;
+  images?: Array<{ src: string } | string>;
+  variants?: ShopifyVariant[];
+  metafields?: Array<{ key?: string; value?: unknown }> | Record<string, unknown>;
+}
+
+interface FoundDate {
+  date: string;
+  time?: string;
+  matches: string[]; // text to strip from titles
+  monthDay?: { month: number; day: number }; // set when the text has no year
+}
 
 export class ShopifyScraper extends BaseScraper {
+  /**
+   * Ticketed events are usually products: read them from the storefront JSON
+   * and only scrape the page when the store has no such products.
+   */
+  protected async collectRawEvents(warnings: string[]): Promise<RawEventData[]> {
+    const options = ShopifyOptionsSchema.parse(this.config.shopify ?? {});
+    const storeRoot = (options.siteUrl ?? new URL(this.config.url).origin).replace(/\/+$/, '');
+
+    try {
+      const products = await this.fetchProducts(options, storeRoot, warnings);
+      const events = products.flatMap(product => this.productToEvents(product, storeRoot));
+      if (events.length > 0) {
+        this.logger.info(`Found ${events.length} events in ${products.length} products`);
+        return events;
+      }
+      if (products.length > 0) {
+        warnings.push(`No event dates found in ${products.length} products; falling back to page scraping`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.info(`No products JSON for collection "${options.collection}": ${message}`);
+    }
+
+    return super.collectRawEvents(warnings);
+  }
+
+  private async fetchProducts(options: ShopifyOptions, storeRoot: string, warnings: string[]): Promise<ShopifyProduct[]> {
+    const products = new Map<number, ShopifyProduct>();
+
+    for (let page = 1; page <= options.maxPages; page++) {
+      const url = `${storeRoot}/collections/${options.collection}/products.json?limit=${PAGE_SIZE}&page=${page}`;
+      this.logger.info(`Fetching products page ${page}: ${url}`);
+
+      const response = await this.http.getJson<{ products?: ShopifyProduct[] }>(url);
+      const pageProducts = response?.products ?? [];
+      for (const product of pageProducts) {
+        products.set(product.id, product);
+      }
+      if (pageProducts.length < PAGE_SIZE) break;
+    }
+
+    for (const handle of options.products) {
+      try {
+        const product = await this.http.getJson<ShopifyProduct>(`${storeRoot}/products/${handle}.js`);
+        products.set(product.id, product);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`Could not fetch product "${handle}": ${message}`);
+      }
+    }
+
+    return Array.from(products.values());
+  }
+
+  /**
+   * A date in the tags or metafields applies to the whole product; otherwise
+   * each variant named after a date ("Fri Mar 14 - 7pm") is its own event,
+   * and finally the product title is searched.
+   */
+  private productToEvents(product: ShopifyProduct, storeRoot: string): RawEventData[] {
+    const today = parseISO(formatInTimeZone(new Date(), this.config.config?.timezone || DEFAULT_TIMEZONE, 'yyyy-MM-dd'));
+    const findDate = (text: string | undefined) => this.withYear(this.findDate(text), today);
+    const variants = product.variants ?? [];
+    const productUrl = `${storeRoot}/products/${product.handle}`;
+    const soldOut = variants.length > 0 && variants.every(v => v.available === false);
+
+    const base: RawEventData = {
+      title: product.title,
+      description: this.plainText(product.body_html ?? product.description),
+      imageUrl: this.imageUrl(product.images),
+      url: productUrl,
+      price: this.lowestPrice(variants),
+      tags: soldOut ? ['sold-out'] : undefined
+    };
+
+    const explicit = this.withYear(this.dateFromTags(product.tags) ?? this.dateFromMetafields(product.metafields), today);
+    if (explicit) {
+      const inTitle = this.findDate(product.title);
+      return [{
+        ...base,
+        title: this.stripMatches(product.title, inTitle?.matches ?? []),
+        date: explicit.date,
+        startTime: explicit.time ?? inTitle?.time
+      }];
+    }
+
+    const dated = variants
+      .map(variant => ({ variant, found: findDate(variant.title) }))
+      .filter((entry): entry is { variant: ShopifyVariant; found: FoundDate } => entry.found !== null);
+    if (dated.length > 0) {
+      return dated.map(({ variant, found }) => ({
+        ...base,
+        date: found.date,
+        startTime: found.time ?? this.findDate(product.title)?.time,
+        url: `${productUrl}?variant=${variant.id}`,
+        price: this.formatPrice(variant.price),
+        tags: variant.available === false ? ['sold-out'] : undefined
+      }));
+    }
+
+    const inTitle = findDate(product.title);
+    if (!inTitle) {
+      this.logger.debug(`No event date in product "${product.title}"`);
+      return [];
+    }
+    return [{
+      ...base,
+      title: this.stripMatches(product.title, inTitle.matches),
+      date: inTitle.date,
+      startTime: inTitle.time
+    }];
+  }
+
+  private findDate(text: string | undefined): FoundDate | null {
+    if (!text) return null;
+
+    const time = text.match(TIME_PATTERN);
+    const clock = time
+      ? `${parseInt(time[1], 10)}:${time[2] ?? '00'} ${time[3].toUpperCase()}M`
+      : undefined;
+    const withTime = (date: string, match: string): FoundDate => ({
+      date,
+      time: clock,
+      matches: time ? [match, time[0]] : [match]
+    });
+
+    const iso = text.match(ISO_DATE_PATTERN);
+    if (iso) {
+      if (iso[2] && !clock) {
+        // Wall-clock time as written in a "2026-03-14T19:00" value
+        const hours = parseInt(iso[2], 10);
+        const time12 = `${hours % 12 || 12}:${iso[3]} ${hours >= 12 ? 'PM' : 'AM'}`;
+        return { date: iso[1], time: time12, matches: [iso[0]] };
+      }
+      return withTime(iso[1], iso[0]);
+    }
+
+    const named = text.match(MONTH_DATE_PATTERN);
+    if (named) {
+      // "Sept. 14" -> "Sep 14" so the date parser's month formats match
+      const date = named[0].replace(/\./, '').replace(/^sept/i, 'Sep');
+      const month = MONTHS.indexOf(named[1].toLowerCase()) + 1;
+      return this.yearless(withTime(date, named[0]), named[3], month, parseInt(named[2], 10));
+    }
+
+    const numeric = text.match(NUMERIC_DATE_PATTERN);
+    if (!numeric) return null;
+    const [, month, day, year] = numeric;
+    // "3/14/26" -> "3/14/2026"; the date parser reads a bare "26" as year 26
+    const date = year?.length === 2 ? `${month}/${day}/20${year}` : numeric[0];
+    return this.yearless(withTime(date, numeric[0]), year, parseInt(month, 10), parseInt(day, 10));
+  }
+
+  private yearless(found: FoundDate, year: string | undefined, month: number, day: number): FoundDate {
+    return year ? found : { ...found, monthDay: { month, day } };
+  }
+
+  /**
+   * Pins a yearless date to the year that puts it nearest today. The date
+   * parser would roll a passed date into next year, turning old ticket
+   * products that are still listed into bogus future events; those are
+   * dropped instead (null).
+   */
+  private withYear(found: FoundDate | null, today: Date): FoundDate | null {
+    if (!found?.monthDay) return found;
+
+    const { month, day } = found.monthDay;
+    const candidates = [-1, 0, 1].map(offset => new Date(today.getFullYear() + offset, month - 1, day));
+    const nearest = candidates.find(date => Math.abs(differenceInCalendarDays(date, today)) <= NEAREST_YEAR_DAYS);
+    if (!nearest || nearest < today) {
+      this.logger.debug(`Skipping past date "${found.date}"`);
+      return null;
+    }
+
+    return { ...found, date: format(nearest, 'yyyy-MM-dd'), monthDay: undefined };
+  }
+
+  private dateFromTags(tags: ShopifyProduct['tags']): FoundDate | null {
+    const list = Array.isArray(tags) ? tags : (tags ?? '').split(',');
+    for (const tag of list) {
+      const match = tag.trim().match(DATE_TAG_PATTERN);
+      const found = match ? this.findDate(match[1]) : null;
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Metafields aren't in the public JSON by default; themes and event apps
+   * that expose them use either a list of {key, value} or a key/value map.
+   */
+  private dateFromMetafields(metafields: ShopifyProduct['metafields']): FoundDate | null {
+    if (!metafields) return null;
+    const entries = Array.isArray(metafields)
+      ? metafields.map(field => [field.key ?? '', field.value] as const)
+      : Object.entries(metafields);
+
+    for (const [key, value] of entries) {
+      if (/date/i.test(key) && typeof value === 'string') {
+        const found = this.findDate(value);
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  private stripMatches(title: string, matches: string[]): string {
+    let stripped = title;
+    for (const match of matches) {
+      stripped = stripped.replace(match, ' ');
+    }
+    stripped = stripped
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s\-–|@,:]+|[\s\-–|@,:(]+$/g, '')
+      .replace(/\(\s*\)/g, '')
+      .trim();
+    return stripped || title;
+  }
+
+  private lowestPrice(variants: ShopifyVariant[]): string | undefined {
+    const amounts = variants.map(v => this.amount(v.price)).filter(a => !isNaN(a));
+    return amounts.length > 0 ? this.formatAmount(Math.min(...amounts)) : undefined;
+  }
+
+  private formatPrice(price: string | number): string | undefined {
+    const amount = this.amount(price);
+    return isNaN(amount) ? undefined : this.formatAmount(amount);
+  }
+
+  private amount(price: string | number): number {
+    return typeof price === 'number' ? price / 100 : parseFloat(price);
+  }
+
+  private formatAmount(amount: number): string {
+    if (amount === 0) return 'Free';
+    return `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+  }
+
+  private imageUrl(images: ShopifyProduct['images']): string | undefined {
+    const first = images?.[0];
+    const src = typeof first === 'string' ? first : first?.src;
+    if (!src) return undefined;
+    return src.startsWith('//') ? `https:${src}` : src;
+  }
+
+  private plainText(html: string | undefined): string | undefined {
+    if (!html) return undefined;
+    const text = cheerio.load(html, null, false).text().replace(/\s+/g, ' ').trim();
+    return text || undefined;
+  }
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
     const selectors = this.config.selectors;
@@ -57,32 +353,28 @@ export class ShopifyScraper extends BaseScraper {
     const selectors = this.config.selectors;
 
     // Extract title
-    const titleSelectors = selectors?.title
-      ? [selectors.title]
-      : ['.event-title', '.card-title', '.product-title', 'h2', 'h3'];
-
-    let title = '';
-    for (const sel of titleSelectors) {
-      const $title = $event.find(sel).first();
-      if ($title.length) {
-        title = this.extractText($title);
-        break;
+    let title = this.extractField($, $event, selectors?.title) ?? '';
+    if (!selectors?.title) {
+      for (const sel of ['.event-title', '.card-title', '.product-title', 'h2', 'h3']) {
+        const $title = $event.find(sel).first();
+        if ($title.length) {
+          title = this.extractText($title);
+          break;
+        }
       }
     }
 
     if (!title) return null;
 
     // Extract date
-    const dateSelectors = selectors?.date
-      ? [selectors.date]
-      : ['.event-date', '.date', 'time', '[class*="date"]'];
-
-    let dateText = '';
-    for (const sel of dateSelectors) {
-      const $date = $event.find(sel).first();
-      if ($date.length) {
-        dateText = $date.attr('datetime') || this.extractText($date);
-        break;
+    let dateText = this.extractField($, $event, selectors?.date) ?? '';
+    if (!selectors?.date) {
+      for (const sel of ['.event-date', '.date', 'time', '[class*="date"]']) {
+        const $date = $event.find(sel).first();
+        if ($date.length) {
+          dateText = $date.attr('datetime') || this.extractText($date);
+          break;
+        }
       }
     }
 
@@ -1,9 +1,67 @@
 import * as cheerio from 'cheerio';
 import type { AnyNode } from 'domhandler';
+import { formatInTimeZone } from 'date-fns-tz';
 import { BaseScraper } from '../../core/base-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
+import { CalendarDay, dateParser, DEFAULT_TIMEZONE } from '../../utils/date-parser';
+import { recurrenceEngine, WEEKDAY_NAMES } from '../../utils/recurrence';
+import { FieldExtractOptions } from '../../utils/field-extractor';
+
+// Plain text selectors have always read the text of every match
+const TEXT_OPTIONS: FieldExtractOptions = { allMatches: true };
 
 export class SpotHopperScraper extends BaseScraper {
+  /**
+   * Maps SpotHopper's recurrence setting ("weekly", "Every other week",
+   * "Monthly", "Does not repeat", ...) to a recurrence pattern anchored on the
+   * series' first date.
+   */
+  private recurrencePattern(recurrence: string | undefined, first: CalendarDay): string | undefined {
+    const lower = recurrence?.toLowerCase().replace(/[_-]/g, ' ').trim() ?? '';
+    if (!lower || /\b(?:none|not repeat|never|once|no)\b/.test(lower)) return undefined;
+
+    const weekday = WEEKDAY_NAMES[new Date(Date.UTC(first.year, first.month - 1, first.day)).getUTCDay()];
+    if (/\b(?:daily|every day)\b/.test(lower)) return 'daily';
+    if (/\b(?:bi ?weekly|other week|every 2 weeks)\b/.test(lower)) return `weekly/2:${weekday}`;
+    if (/\bweek/.test(lower)) return `weekly:${weekday}`;
+    if (/\bmonth/.test(lower)) {
+      if (/\blast\b/.test(lower)) return `monthly:-1:${weekday}`;
+      if (/\b(?:day of (?:the )?month|by date|date)\b/.test(lower)) return 'monthly';
+      return `monthly:${Math.ceil(first.day / 7)}:${weekday}`;
+    }
+
+    // Free text, e.g. "Every 2nd Tuesday"
+    return dateParser.detectRecurringPattern(recurrence!) ?? undefined;
+  }
+
+  /**
+   * Series usually carry their first date, which may be long past; list them
+   * on their next occurrence instead.
+   */
+  private upcomingOccurrence(pattern: string, first: CalendarDay): CalendarDay | null {
+    const rule = recurrenceEngine.parsePattern(pattern);
+    const today = this.calendarDay(formatInTimeZone(new Date(), this.timezone(), 'yyyy-MM-dd'))!;
+    if (!rule || this.dayKey(first) >= this.dayKey(today)) return first;
+    return recurrenceEngine.nextOccurrence(rule, today, first);
+  }
+
+  private calendarDay(value: string): CalendarDay | null {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    }
+    const date = dateParser.parseDate(value);
+    return date ? { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() } : null;
+  }
+
+  private dayKey(day: CalendarDay): string {
+    return `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+  }
+
+  private timezone(): string {
+    return this.config.config?.timezone || DEFAULT_TIMEZONE;
+  }
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
 
@@ -79,23 +137,20 @@ export class SpotHopperScraper extends BaseScraper {
     const url = this.extractHref($event.find('.event-read-more a, a').first(), this.config.url);
 
     // Use data attribute date if available, otherwise use text
-    let date = startDate || dayText;
-
-    // Add recurring info to description if present
-    let fullDescription = description;
-    if (recurrenceType && recurrenceType.toLowerCase() !== 'none') {
-      fullDescription = fullDescription
-        ? `${fullDescription} (Recurring: ${recurrenceType})`
-        : `Recurring: ${recurrenceType}`;
-    }
+    const first = startDate ? this.calendarDay(startDate) : null;
+    const pattern = recurrenceType && first ? this.recurrencePattern(recurrenceType, first) : undefined;
+    // A series is listed on its next occurrence rather than its first date
+    const upcoming = pattern && first ? this.upcomingOccurrence(pattern, first) : null;
+    const date = upcoming ? this.dayKey(upcoming) : startDate || dayText;
 
     return {
       title,
       date,
       startTime: timeText || startTime,
-      description: fullDescription || undefined,
+      description: description || undefined,
       url,
-      imageUrl
+      imageUrl,
+      recurringPattern: pattern
     };
   }
 
@@ -133,17 +188,17 @@ export class SpotHopperScraper extends BaseScraper {
       const $event = $(element);
 
       const title = selectors?.title
-        ? this.extractText($event.find(selectors.title))
+        ? this.extractField($, $event, selectors.title, TEXT_OPTIONS)
         : this.extractText($event.find('h2, h3, .event-title').first());
 
       if (!title) return;
 
       const dateText = selectors?.date
-        ? this.extractText($event.find(selectors.date))
+        ? this.extractField($, $event, selectors.date, TEXT_OPTIONS)
         : this.extractText($event.find('time, .event-date, .date').first());
 
       const description = selectors?.description
-        ? this.extractText($event.find(selectors.description))
+        ? this.extractField($, $event, selectors.description, TEXT_OPTIONS)
         : this.extractText($event.find('p, .event-description').first());
 
       events.push({
@@ -1,9 +1,147 @@
 import * as cheerio from 'cheerio';
 import type { AnyNode } from 'domhandler';
+import { formatInTimeZone } from 'date-fns-tz';
 import { BaseScraper } from '../../core/base-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
+import { DEFAULT_TIMEZONE } from '../../utils/date-parser';
+import { SquarespaceOptionsSchema } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SquarespaceLocation {
+  addressTitle?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+}
+
+interface SquarespaceEventItem {
+  title?: string;
+  startDate?: number; // epoch milliseconds
+  endDate?: number;
+  fullUrl?: string;
+  assetUrl?: string;
+  excerpt?: string; // HTML
+  location?: SquarespaceLocation;
+  tags?: string[];
+  categories?: string[];
+}
+
+interface SquarespaceCollectionResponse {
+  upcoming?: SquarespaceEventItem[];
+  past?: SquarespaceEventItem[]; // not scraped; the event history keeps what has run
+  items?: SquarespaceEventItem[];
+  pagination?: {
+    nextPage?: boolean;
+    nextPageOffset?: number;
+    nextPageUrl?: string;
+  };
+}
 
 export class SquarespaceScraper extends BaseScraper {
+  /**
+   * Squarespace serves any collection page as JSON with `?format=json`; for
+   * events collections that gives exact start/end instants instead of
+   * whatever the template prints. Page scraping is the fallback.
+   */
+  protected async collectRawEvents(warnings: string[]): Promise<RawEventData[]> {
+    const options = SquarespaceOptionsSchema.parse(this.config.squarespace ?? {});
+
+    if (options.json) {
+      try {
+        const events = await this.fetchCollectionEvents(options.collectionUrl ?? this.config.url, options.maxPages);
+        if (events.length > 0) {
+          return events;
+        }
+        this.logger.info('No events in collection JSON; scraping the page');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Collection JSON failed: ${message}`);
+        warnings.push(`Collection JSON failed (${message}); falling back to page scraping`);
+      }
+    }
+
+    return super.collectRawEvents(warnings);
+  }
+
+  private async fetchCollectionEvents(collectionUrl: string, maxPages: number): Promise<RawEventData[]> {
+    const events: RawEventData[] = [];
+    const visited = new Set<string>();
+    let nextUrl: string | null = this.jsonUrl(collectionUrl);
+
+    while (nextUrl && !visited.has(nextUrl) && visited.size < maxPages) {
+      visited.add(nextUrl);
+      this.logger.info(`Fetching collection JSON: ${nextUrl}`);
+
+      const response: SquarespaceCollectionResponse = await this.http.getJson<SquarespaceCollectionResponse>(nextUrl);
+      // Non-event collections (and the home page) have no upcoming list
+      const items = response?.upcoming ?? response?.items ?? [];
+      for (const item of items) {
+        const event = this.mapCollectionItem(item, collectionUrl);
+        if (event) {
+          events.push(event);
+        }
+      }
+
+      nextUrl = this.nextPageUrl(response?.pagination, collectionUrl);
+    }
+
+    this.logger.info(`Found ${events.length} events in collection JSON`);
+    return events;
+  }
+
+  private nextPageUrl(
+    pagination: SquarespaceCollectionResponse['pagination'],
+    collectionUrl: string
+  ): string | null {
+    if (!pagination || pagination.nextPage === false) return null;
+    if (pagination.nextPageUrl) {
+      return this.jsonUrl(new URL(pagination.nextPageUrl, collectionUrl).href);
+    }
+    if (pagination.nextPageOffset) {
+      const url = new URL(this.jsonUrl(collectionUrl));
+      url.searchParams.set('offset', String(pagination.nextPageOffset));
+      return url.href;
+    }
+    return null;
+  }
+
+  private jsonUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.searchParams.set('format', 'json');
+    return parsed.href;
+  }
+
+  private mapCollectionItem(item: SquarespaceEventItem, baseUrl: string): RawEventData | null {
+    const title = item.title?.trim();
+    if (!title || typeof item.startDate !== 'number') return null;
+
+    const timezone = this.config.config?.timezone || DEFAULT_TIMEZONE;
+    const start = new Date(item.startDate);
+    const span = typeof item.endDate === 'number' ? item.endDate - item.startDate : 0;
+    // Multi-day events keep only their start time
+    const end = span > 0 && span < DAY_MS ? new Date(item.endDate!) : undefined;
+
+    const excerpt = item.excerpt
+      ? cheerio.load(item.excerpt, null, false).text().replace(/\s+/g, ' ').trim()
+      : '';
+    const location = item.location?.addressTitle?.trim() || item.location?.addressLine1?.trim();
+    const tags = [...(item.tags ?? []), ...(item.categories ?? [])]
+      .map(tag => tag.trim().toLowerCase())
+      .filter(Boolean);
+
+    return {
+      title,
+      date: formatInTimeZone(start, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+      startTime: formatInTimeZone(start, timezone, 'h:mm a'),
+      endTime: end ? formatInTimeZone(end, timezone, 'h:mm a') : undefined,
+      description: excerpt || undefined,
+      url: item.fullUrl ? new URL(item.fullUrl, baseUrl).href : undefined,
+      imageUrl: item.assetUrl || undefined,
+      location: location || undefined,
+      tags: tags.length > 0 ? tags : undefined
+    };
+  }
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
     const selectors = this.config.selectors;
@@ -1,22 +1,8 @@
 import * as cheerio from 'cheerio';
 import { WixScraper } from './wix-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
-import { getBrowserClient } from '../../utils/browser-client';
 
 export class MoonrakerScraper extends WixScraper {
-  protected async fetchContent(): Promise<string> {
-    // Moonraker requires special handling for age verification and iframe
-    const browser = getBrowserClient();
-    return browser.fetchWithAgeVerification(
-      this.config.url,
-      {
-        waitForSelector: 'iframe[src*="boomte.ch"]',
-        timeout: this.config.config?.timeout || 45000,
-        ageVerificationSelector: 'text=Yes, I am!'
-      }
-    );
-  }
-
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
 
@@ -0,0 +1,159 @@
+import * as cheerio from 'cheerio';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RawEventData } from '../../utils/event-normalizer';
+import { DEFAULT_TIMEZONE } from '../../utils/date-parser';
+import { logger } from '../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WIX_MEDIA_BASE = 'https://static.wixstatic.com/media/';
+
+type JsonNode = Record<string, unknown>;
+
+export interface WarmupDataOptions {
+  baseUrl: string;
+  timezone?: string; // used when an event carries no timeZoneId
+}
+
+/**
+ * Reads Wix Events out of the JSON state Wix embeds in server-rendered pages
+ * (`<script id="wix-warmup-data">` and the events widget's other
+ * `application/json` blocks), so the events list doesn't need a browser.
+ * Handles both the classic (`scheduling.config`) and the v3
+ * (`dateAndTimeSettings`) event shapes.
+ */
+export class WixWarmupDataParser {
+  extract($: cheerio.CheerioAPI, options: WarmupDataOptions): RawEventData[] {
+    const events: RawEventData[] = [];
+    const seen = new Set<string>();
+
+    $('script#wix-warmup-data, script[type="application/json"]').each((_, element) => {
+      const text = $(element).text().trim();
+      // Cheap check before parsing: most JSON blocks on a Wix page are site config
+      if (!text || !/"(?:scheduling|dateAndTimeSettings)"/.test(text)) return;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        logger.debug(`Skipping unparseable Wix JSON block: ${error}`);
+        return;
+      }
+
+      for (const node of this.findEventNodes(data)) {
+        const key = typeof node.id === 'string' ? node.id : `${node.title}|${this.startDate(node)}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const event = this.mapEvent(node, options);
+        if (event) events.push(event);
+      }
+    });
+
+    return events;
+  }
+
+  private findEventNodes(data: unknown, depth: number = 0): JsonNode[] {
+    if (depth > 12 || !data || typeof data !== 'object') return [];
+
+    if (Array.isArray(data)) {
+      return data.flatMap(item => this.findEventNodes(item, depth + 1));
+    }
+
+    const node = data as JsonNode;
+    if (typeof node.title === 'string' && this.startDate(node)) {
+      return [node];
+    }
+
+    return Object.values(node).flatMap(value => this.findEventNodes(value, depth + 1));
+  }
+
+  private mapEvent(node: JsonNode, options: WarmupDataOptions): RawEventData | null {
+    const title = (node.title as string).trim();
+    const startDate = this.startDate(node);
+    const start = startDate ? new Date(startDate) : null;
+    // "Date and time TBD" events have nothing to put on a calendar
+    if (!title || !start || isNaN(start.getTime()) || this.isTbd(node)) return null;
+
+    const timezone = this.timeZoneId(node) || options.timezone || DEFAULT_TIMEZONE;
+    const endDate = this.endDate(node);
+    const end = endDate ? new Date(endDate) : null;
+    // Multi-day events keep only their start time
+    const span = end ? end.getTime() - start.getTime() : 0;
+
+    const location = this.get(node, 'location', 'name');
+    return {
+      title,
+      date: formatInTimeZone(start, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+      startTime: formatInTimeZone(start, timezone, 'h:mm a'),
+      endTime: end && span > 0 && span < DAY_MS ? formatInTimeZone(end, timezone, 'h:mm a') : undefined,
+      description: this.text(node.shortDescription) ?? this.text(node.description) ?? this.text(node.about),
+      url: this.eventUrl(node, options.baseUrl),
+      imageUrl: this.imageUrl(node.mainImage),
+      price: this.get(node, 'registration', 'ticketing', 'lowestTicketPriceFormatted')
+        ?? this.get(node, 'registration', 'tickets', 'lowestPrice', 'formattedValue'),
+      location: typeof location === 'string' && location.trim() ? location.trim() : undefined
+    };
+  }
+
+  private startDate(node: JsonNode): string | undefined {
+    return this.get(node, 'scheduling', 'config', 'startDate')
+      ?? this.get(node, 'dateAndTimeSettings', 'startDate');
+  }
+
+  private endDate(node: JsonNode): string | undefined {
+    return this.get(node, 'scheduling', 'config', 'endDate')
+      ?? this.get(node, 'dateAndTimeSettings', 'endDate');
+  }
+
+  private timeZoneId(node: JsonNode): string | undefined {
+    return this.get(node, 'scheduling', 'config', 'timeZoneId')
+      ?? this.get(node, 'dateAndTimeSettings', 'timeZoneId');
+  }
+
+  private isTbd(node: JsonNode): boolean {
+    const scheduling = (node.scheduling as JsonNode | undefined)?.config as JsonNode | undefined;
+    const settings = node.dateAndTimeSettings as JsonNode | undefined;
+    return scheduling?.scheduleTbd === true || settings?.dateAndTimeTbd === true;
+  }
+
+  private eventUrl(node: JsonNode, baseUrl: string): string | undefined {
+    const base = this.get(node, 'eventPageUrl', 'base');
+    const pagePath = this.get(node, 'eventPageUrl', 'path');
+    if (base && pagePath) return `${base.replace(/\/$/, '')}${pagePath}`;
+
+    // Default route of the Wix Events page
+    return typeof node.slug === 'string'
+      ? new URL(`/event-details/${node.slug}`, baseUrl).href
+      : undefined;
+  }
+
+  /**
+   * Images are either absolute URLs or Wix media ids ("abc123~mv2.jpg").
+   */
+  private imageUrl(image: unknown): string | undefined {
+    if (!image || typeof image !== 'object') return undefined;
+    const { url, id } = image as JsonNode;
+    if (typeof url === 'string' && url) {
+      return url.startsWith('http') ? url : `${WIX_MEDIA_BASE}${url}`;
+    }
+    return typeof id === 'string' && id ? `${WIX_MEDIA_BASE}${id}` : undefined;
+  }
+
+  private text(value: unknown): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const plain = cheerio.load(value, null, false).text().replace(/\s+/g, ' ').trim();
+    return plain || undefined;
+  }
+
+  private get(node: JsonNode, ...path: string[]): string | undefined {
+    let value: unknown = node;
+    for (const key of path) {
+      if (!value || typeof value !== 'object') return undefined;
+      value = (value as JsonNode)[key];
+    }
+    return typeof value === 'string' && value ? value : undefined;
+  }
+}
+
+export const wixWarmupDataParser = new WixWarmupDataParser();
+export default wixWarmupDataParser;
@@ -2,8 +2,47 @@ import * as cheerio from 'cheerio';
 import type { AnyNode } from 'domhandler';
 import { BaseScraper } from '../../core/base-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
+import { wixWarmupDataParser } from './warmup-data';
 
 export class WixScraper extends BaseScraper {
+  // Page fetched for warm-up data, reused when falling back without a browser
+  private plainHtml?: string;
+
+  /**
+   * Wix server-renders the events widget's data into the page, so a plain
+   * HTTP fetch is tried first; the browser (when configured) and selector
+   * parsing only run when the page carries no events data.
+   */
+  protected async collectRawEvents(warnings: string[]): Promise<RawEventData[]> {
+    this.plainHtml = undefined;
+    try {
+      this.plainHtml = await this.http.get(this.config.url);
+      const events = wixWarmupDataParser.extract(cheerio.load(this.plainHtml), {
+        baseUrl: this.config.url,
+        timezone: this.config.config?.timezone
+      });
+      if (events.length > 0) {
+        this.logger.info(`Found ${events.length} events in Wix warm-up data`);
+        return events;
+      }
+      this.logger.debug('No events in Wix warm-up data');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.debug(`Plain fetch failed, skipping warm-up data: ${message}`);
+    }
+
+    return super.collectRawEvents(warnings);
+  }
+
+  protected async fetchContent(url: string = this.config.url): Promise<string> {
+    if (this.plainHtml !== undefined && url === this.config.url && !this.config.config?.useBrowser) {
+      const html = this.plainHtml;
+      this.plainHtml = undefined;
+      return html;
+    }
+    return super.fetchContent(url);
+  }
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
 
@@ -0,0 +1,198 @@
+import winston from 'winston';
+import { HttpClient } from '../../utils/http-client';
+import { RawEventData } from '../../utils/event-normalizer';
+
+export type WordPressApiKind = 'tribe';
+
+export interface EventApiQuery {
+  siteRoot: string; // WordPress root, e.g. https://example.com
+  start: string; // yyyy-MM-dd, inclusive
+  end: string; // yyyy-MM-dd, inclusive
+  categories: string[];
+  tags: string[];
+  perPage: number;
+  path?: string; // overrides the plugin's default route under /wp-json/
+}
+
+export interface EventApiContext {
+  http: HttpClient;
+  logger: winston.Logger;
+  warnings: string[];
+}
+
+/**
+ * A WordPress events plugin that publishes its events over the REST API.
+ * `namespace` is what the plugin registers in the /wp-json/ index, which is
+ * how sites are auto-detected.
+ */
+export interface WordPressEventApi {
+  readonly kind: WordPressApiKind;
+  readonly namespace: string;
+  fetchWindow(query: EventApiQuery, context: EventApiContext): Promise<RawEventData[]>;
+}
+
+// Some hosts' firewalls reject browser user agents on /wp-json/ requests
+export const API_HEADERS = {
+  'User-Agent': 'penryn-event-scraper/1.0',
+  'Accept': 'application/json'
+};
+
+// Guards against APIs that ignore the page parameter and return the same page forever
+const MAX_PAGES = 40;
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&#8217;/g, '’')
+    .replace(/&#8211;/g, '–')
+    .replace(/&#038;/g, '&')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function formatClock(hour: number, minutes: number): string {
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const hour12 = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${hour12}:${String(minutes).padStart(2, '0')} ${ampm}`;
+}
+
+interface TribeEventDateDetails {
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minutes: string;
+  seconds: string;
+}
+
+interface TribeTerm {
+  name: string;
+  slug: string;
+}
+
+interface TribeEvent {
+  title: string;
+  description: string;
+  url: string;
+  start_date: string;
+  end_date: string;
+  start_date_details: TribeEventDateDetails;
+  end_date_details: TribeEventDateDetails;
+  all_day?: boolean;
+  cost: string;
+  image: {
+    url: string;
+  } | false;
+  venue?: {
+    venue?: string;
+  } | [];
+  tags?: TribeTerm[];
+}
+
+interface TribeEventsResponse {
+  events: TribeEvent[];
+  total: number;
+  total_pages: number;
+}
+
+/**
+ * The Events Calendar (a.k.a. Tribe): /wp-json/tribe/events/v1/events.
+ */
+export class TribeEventsApi implements WordPressEventApi {
+  readonly kind = 'tribe';
+  readonly namespace = 'tribe/events/v1';
+
+  async fetchWindow(query: EventApiQuery, { http, logger, warnings }: EventApiContext): Promise<RawEventData[]> {
+    const events: RawEventData[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const params = new URLSearchParams({
+        start_date: `${query.start} 00:00:00`,
+        end_date: `${query.end} 23:59:59`,
+        page: String(page),
+        per_page: String(query.perPage)
+      });
+      if (query.categories.length > 0) params.set('categories', query.categories.join(','));
+      if (query.tags.length > 0) params.set('tags', query.tags.join(','));
+
+      const url = `${query.siteRoot}/wp-json/${query.path || 'tribe/events/v1/events'}?${params}`;
+      logger.info(`Fetching page ${page}/${totalPages}: ${url}`);
+
+      let response: TribeEventsResponse;
+      try {
+        response = await http.getJson<TribeEventsResponse>(url, { headers: API_HEADERS });
+      } catch (error) {
+        // Tribe API returns 404 for pages past the end of the archive (and for
+        // windows with no events). Treat any per-page failure as end-of-results
+        // rather than aborting the scrape.
+        // A failing first page is reported too, or a broken API would look like
+        // an empty calendar.
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(page > 1
+          ? `Stopped paginating at page ${page}: ${message}`
+          : `No events for ${query.start}..${query.end}: ${message}`);
+        logger.debug(`Stopped paginating at page ${page}: ${message}`);
+        break;
+      }
+
+      if (!response || !Array.isArray(response.events)) {
+        warnings.push(`Page ${page} returned no events array; stopping pagination`);
+        logger.warn(`Page ${page} returned no events array; stopping pagination`);
+        break;
+      }
+
+      if (page === 1) {
+        totalPages = Math.min(response.total_pages || 1, MAX_PAGES);
+        logger.info(`Window ${query.start}..${query.end}: ${response.total} events, ${totalPages} pages`);
+      }
+
+      for (const event of response.events) {
+        const rawEvent = this.mapToRawEvent(event);
+        if (rawEvent) {
+          events.push(rawEvent);
+        } else {
+          warnings.push(`Could not map API event: ${event.title || 'Unknown'}`);
+        }
+      }
+
+      page++;
+    } while (page <= totalPages);
+
+    return events;
+  }
+
+  private mapToRawEvent(event: TribeEvent): RawEventData | null {
+    if (!event.title) {
+      return null;
+    }
+
+    const timeOf = (details: TribeEventDateDetails) =>
+      formatClock(parseInt(details.hour, 10), parseInt(details.minutes, 10));
+    const venueName = event.venue && !Array.isArray(event.venue) ? event.venue.venue : undefined;
+
+    return {
+      title: stripHtml(event.title),
+      date: event.start_date,
+      startTime: event.all_day ? undefined : timeOf(event.start_date_details),
+      endTime: event.all_day ? undefined : timeOf(event.end_date_details),
+      description: event.description ? stripHtml(event.description) : undefined,
+      url: event.url,
+      imageUrl: event.image ? event.image.url : undefined,
+      price: event.cost || undefined,
+      location: venueName ? stripHtml(venueName) : undefined,
+      tags: event.tags?.map(tag => tag.slug)
+    };
+  }
+}
+
+export const WORDPRESS_EVENT_APIS: WordPressEventApi[] = [
+  new TribeEventsApi()
+];
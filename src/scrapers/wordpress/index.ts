@@ -1,5 +1,4 @@
 export * from './wordpress-scraper';
 export * from './mindscape-scraper';
 export * from './happy-dayz-scraper';
-export * from './highhand-scraper';
 export * from './pour-choice-scraper';
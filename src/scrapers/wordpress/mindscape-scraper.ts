@@ -4,6 +4,8 @@ import { WordPressScraper } from './wordpress-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
 
 export class MindscapeScraper extends WordPressScraper {
+  protected readonly defaultApi = 'none';
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
 
@@ -51,6 +51,8 @@ function formatTime(iso: string): string | undefined {
  * per event occurrence, which is more reliable to parse than the calendar DOM.
  */
 export class PourChoiceScraper extends WordPressScraper {
+  protected readonly defaultApi = 'none';
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
     const seen = new Set<string>();
@@ -1,8 +1,134 @@
 import * as cheerio from 'cheerio';
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 import { BaseScraper } from '../../core/base-scraper';
 import { RawEventData } from '../../utils/event-normalizer';
+import { DEFAULT_TIMEZONE } from '../../utils/date-parser';
+import { FieldExtractOptions, IMAGE_ATTRS, LINK_ATTRS } from '../../utils/field-extractor';
+import { WordPressApi, WordPressOptions, WordPressOptionsSchema } from '../../types';
+import { API_HEADERS, WORDPRESS_EVENT_APIS, WordPressEventApi } from './event-apis';
+
+// Plain text selectors have always read the text of every match
+const TEXT_OPTIONS: FieldExtractOptions = { allMatches: true };
+
+interface WordPressIndex {
+  namespaces?: string[];
+}
 
 export class WordPressScraper extends BaseScraper {
+  /**
+   * Used when the venue doesn't set `wordpress.api`. Subclasses with their own
+   * parseEvents set "none" so their parsing isn't silently replaced.
+   */
+  protected readonly defaultApi: WordPressApi = 'auto';
+
+  /**
+   * Prefers the events plugin's REST API (The Events Calendar) and falls back
+   * to scraping the page when the site has none, the API errors, or it
+   * returns nothing.
+   */
+  protected async collectRawEvents(warnings: string[]): Promise<RawEventData[]> {
+    const options = WordPressOptionsSchema.parse(this.config.wordpress ?? {});
+    const siteRoot = (options.siteUrl ?? new URL(this.config.url).origin).replace(/\/+$/, '');
+    const setting = options.api ?? this.defaultApi;
+
+    if (setting !== 'none') {
+      try {
+        const api = await this.resolveEventApi(setting, siteRoot);
+        if (api) {
+          const events = await this.fetchFromApi(api, options, siteRoot, warnings);
+          if (events.length > 0) {
+            return events;
+          }
+          warnings.push(`${api.kind} events API returned no events; falling back to page scraping`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Events API failed: ${message}`);
+        warnings.push(`Events API failed (${message}); falling back to page scraping`);
+      }
+    }
+
+    return super.collectRawEvents(warnings);
+  }
+
+  /**
+   * The configured API, or for "auto" the first one whose namespace the site
+   * registers in its /wp-json/ index.
+   */
+  private async resolveEventApi(setting: WordPressApi, siteRoot: string): Promise<WordPressEventApi | null> {
+    if (setting !== 'auto') {
+      return WORDPRESS_EVENT_APIS.find(api => api.kind === setting) ?? null;
+    }
+
+    let index: WordPressIndex;
+    try {
+      index = await this.http.getJson<WordPressIndex>(`${siteRoot}/wp-json/?_fields=namespaces`, { headers: API_HEADERS });
+    } catch (error) {
+      this.logger.debug(`No WordPress REST index at ${siteRoot}: ${error}`);
+      return null;
+    }
+
+    const namespaces = index?.namespaces ?? [];
+    const api = WORDPRESS_EVENT_APIS.find(candidate => namespaces.includes(candidate.namespace)) ?? null;
+    this.logger.info(api ? `Detected ${api.kind} events API` : 'No known events API detected');
+    return api;
+  }
+
+  /**
+   * Requests the lookahead period in fixed-size date windows (large archives
+   * otherwise need dozens of pages) and drops events repeated across windows.
+   */
+  private async fetchFromApi(
+    api: WordPressEventApi,
+    options: WordPressOptions,
+    siteRoot: string,
+    warnings: string[]
+  ): Promise<RawEventData[]> {
+    const timezone = this.config.config?.timezone || DEFAULT_TIMEZONE;
+    const today = parseISO(formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd'));
+    const lastDay = addDays(today, options.lookaheadDays);
+
+    const events: RawEventData[] = [];
+    const seen = new Set<string>();
+
+    for (let start = today; start <= lastDay; start = addDays(start, options.windowDays)) {
+      const end = addDays(start, options.windowDays - 1);
+      const query = {
+        siteRoot,
+        start: format(start, 'yyyy-MM-dd'),
+        end: format(end < lastDay ? end : lastDay, 'yyyy-MM-dd'),
+        categories: options.categories,
+        tags: options.tags,
+        perPage: options.perPage,
+        path: options.apiPath
+      };
+
+      let windowEvents: RawEventData[];
+      try {
+        windowEvents = await api.fetchWindow(query, { http: this.http, logger: this.logger, warnings });
+      } catch (error) {
+        // Without any events yet, let the caller fall back to the page
+        if (events.length === 0) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`Skipped ${query.start}..${query.end}: ${message}`);
+        continue;
+      }
+
+      // Multi-day events are returned by every window they overlap
+      for (const event of windowEvents) {
+        const key = `${event.url ?? event.title}|${event.date}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          events.push(event);
+        }
+      }
+    }
+
+    this.logger.info(`Fetched ${events.length} events from the ${api.kind} API`);
+    return events;
+  }
+
   protected async parseEvents($: cheerio.CheerioAPI): Promise<RawEventData[]> {
     const events: RawEventData[] = [];
     const selectors = this.config.selectors;
@@ -15,28 +141,24 @@ export class WordPressScraper extends BaseScraper {
     $(selectors.eventContainer).each((_, element) => {
       const $event = $(element);
 
-      const title = selectors.title
-        ? this.extractText($event.find(selectors.title))
-        : this.extractText($event.find('h2, h3, .event-title'));
+      const title = this.extractField($, $event, selectors.title, TEXT_OPTIONS);
 
       const dateText = selectors.date
-        ? this.extractText($event.find(selectors.date))
+        ? this.extractField($, $event, selectors.date, TEXT_OPTIONS)
         : this.extractText($event.find('time, .event-date'));
 
-      const timeText = selectors.time
-        ? this.extractText($event.find(selectors.time))
-        : undefined;
+      const timeText = this.extractField($, $event, selectors.time, TEXT_OPTIONS);
 
       const description = selectors.description
-        ? this.extractText($event.find(selectors.description))
+        ? this.extractField($, $event, selectors.description, TEXT_OPTIONS)
         : this.extractText($event.find('.event-description, p'));
 
       const link = selectors.link
-        ? this.extractHref($event.find(selectors.link), this.config.url)
+        ? this.extractField($, $event, selectors.link, { defaultAttrs: LINK_ATTRS, baseUrl: this.config.url })
         : this.extractHref($event.find('a'), this.config.url);
 
       const image = selectors.image
-        ? this.extractSrc($event.find(selectors.image), this.config.url)
+        ? this.extractField($, $event, selectors.image, { defaultAttrs: IMAGE_ATTRS, baseUrl: this.config.url })
         : this.extractSrc($event.find('img'), this.config.url);
 
       if (title) {
@@ -44,9 +166,12 @@ export class WordPressScraper extends BaseScraper {
           title,
           date: dateText,
           startTime: timeText,
+          endTime: this.extractField($, $event, selectors.endTime, TEXT_OPTIONS),
           description,
           url: link,
-          imageUrl: image
+          imageUrl: image,
+          price: this.extractField($, $event, selectors.price, TEXT_OPTIONS),
+          location: this.extractField($, $event, selectors.location, TEXT_OPTIONS)
         });
       }
     });
@@ -0,0 +1,271 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { Event, EventSchema } from '../types';
+import { ScraperRegistry } from '../scrapers/registry';
+import { IcsOutput } from '../outputs/ics-output';
+import { VenueStatusManager } from '../utils/venue-status-manager';
+import { EventHistoryManager } from '../utils/event-history-manager';
+import { parseEventFilter, filterEvents, EventFilter } from '../utils/event-filter';
+import { logger } from '../utils/logger';
+
+export interface ApiServerOptions {
+  outputDir?: string;
+  port?: number;
+  host?: string;
+  registry?: ScraperRegistry;
+}
+
+interface LoadedEvents {
+  mtimeMs: number;
+  generatedAt: string | null;
+  events: Event[];
+}
+
+// Seconds a client should wait when events.json is being rewritten
+const RETRY_AFTER_SECONDS = 5;
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly headers: http.OutgoingHttpHeaders = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Read-only REST API over the latest scrape outputs.
+ *
+ *   GET /events?from=&to=&venue=&type=&tag=
+ *   GET /events/:id
+ *   GET /venues
+ *   GET /venues/:id/status
+ *   GET /calendar.ics?from=&to=&venue=&type=&tag=
+ *
+ * events.json is re-read whenever it changes on disk, so a scrape running
+ * alongside the server is picked up without a restart.
+ */
+export class ApiServer {
+  private outputDir: string;
+  private port: number;
+  private host: string;
+  private registry: ScraperRegistry;
+  private server: http.Server | null = null;
+  private loaded: LoadedEvents | null = null;
+
+  constructor(options: ApiServerOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'output');
+    this.port = options.port ?? 3000;
+    this.host = options.host || '127.0.0.1';
+    this.registry = options.registry || new ScraperRegistry();
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Request failed: ${req.method} ${req.url} - ${error}`);
+        this.sendJson(res, 500, { error: 'Internal server error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+
+    const address = this.server.address();
+    const port = typeof address === 'object' && address ? address.port : this.port;
+    return `http://${this.host}:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.close(error => (error ? reject(error) : resolve()));
+    });
+    this.server = null;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams.entries());
+
+    try {
+      const segments = this.pathSegments(url.pathname);
+
+      if (segments.length === 1 && segments[0] === 'events') {
+        const loaded = this.loadEvents();
+        const events = filterEvents(loaded.events, this.parseFilter(params));
+        this.sendJson(res, 200, { generatedAt: loaded.generatedAt, count: events.length, events });
+        return;
+      }
+
+      if (segments.length === 2 && segments[0] === 'events') {
+        const event = this.loadEvents().events.find(e => e.id === segments[1]);
+        if (!event) {
+          throw new HttpError(404, `Event not found: ${segments[1]}`);
+        }
+        this.sendJson(res, 200, event);
+        return;
+      }
+
+      if (segments.length === 1 && segments[0] === 'venues') {
+        this.sendJson(res, 200, { venues: this.listVenues() });
+        return;
+      }
+
+      if (segments.length === 3 && segments[0] === 'venues' && segments[2] === 'status') {
+        this.sendJson(res, 200, await this.getVenueStatus(segments[1]));
+        return;
+      }
+
+      if (segments.length === 1 && segments[0] === 'calendar.ics') {
+        const events = filterEvents(this.loadEvents().events, this.parseFilter(params));
+        const revisions = await new EventHistoryManager(this.outputDir).getRevisions();
+        const calendar = new IcsOutput().render(events, undefined, revisions);
+        res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8' });
+        res.end(req.method === 'HEAD' ? undefined : calendar);
+        return;
+      }
+
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      this.sendJson(res, error.status, { error: error.message }, error.headers);
+    }
+  }
+
+  private pathSegments(pathname: string): string[] {
+    try {
+      return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch (error) {
+      if (error instanceof URIError) {
+        throw new HttpError(400, `Malformed path: ${pathname}`);
+      }
+      throw error;
+    }
+  }
+
+  private parseFilter(params: Record<string, string>): EventFilter {
+    try {
+      return parseEventFilter(params);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Reads events.json, re-using the parsed copy until the file changes.
+   * Events that no longer match EventSchema are skipped with a warning. A
+   * file caught mid-write is served from the last good copy, or answered
+   * with 503 and Retry-After when there is none yet.
+   */
+  private loadEvents(): LoadedEvents {
+    const filePath = path.join(this.outputDir, 'events.json');
+    if (!fs.existsSync(filePath)) {
+      throw new HttpError(503, 'No events.json yet. Run a scrape first.');
+    }
+
+    const { mtimeMs } = fs.statSync(filePath);
+    if (this.loaded && this.loaded.mtimeMs === mtimeMs) {
+      return this.loaded;
+    }
+
+    let data;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      if (this.loaded) {
+        logger.warn(`Could not parse ${filePath}, serving the previous copy: ${error.message}`);
+        return this.loaded;
+      }
+      throw new HttpError(503, 'events.json is being written. Try again shortly.', {
+        'Retry-After': String(RETRY_AFTER_SECONDS)
+      });
+    }
+
+    const events: Event[] = [];
+    for (const raw of data.events ?? []) {
+      const parsed = EventSchema.safeParse(raw);
+      if (parsed.success) {
+        events.push(parsed.data);
+      } else {
+        logger.warn(`Skipping invalid event ${raw?.id}: ${parsed.error.message}`);
+      }
+    }
+
+    this.loaded = { mtimeMs, generatedAt: data.metadata?.generatedAt ?? null, events };
+    logger.info(`Loaded ${events.length} events from ${filePath}`);
+    return this.loaded;
+  }
+
+  private listVenues() {
+    const counts = new Map<string, number>();
+    try {
+      for (const event of this.loadEvents().events) {
+        counts.set(event.source, (counts.get(event.source) || 0) + 1);
+      }
+    } catch {
+      // Venues are still listed before the first scrape
+    }
+
+    return this.registry.getAllConfigs().map(config => ({
+      id: config.id,
+      name: config.name,
+      platform: config.platform,
+      enabled: config.enabled,
+      url: config.url,
+      venue: config.venue,
+      eventCount: counts.get(config.id) || 0
+    }));
+  }
+
+  private async getVenueStatus(venueId: string) {
+    if (!this.registry.getConfig(venueId)) {
+      throw new HttpError(404, `Unknown venue: ${venueId}`);
+    }
+
+    // A fresh manager re-reads venue-status.json so results follow the latest scrape
+    const statusManager = new VenueStatusManager(this.outputDir);
+    const status = await statusManager.getVenueStatus(venueId);
+    if (!status) {
+      throw new HttpError(404, `No status recorded for ${venueId}`);
+    }
+
+    const reports = await statusManager.generateStalenessReport();
+    return {
+      ...status,
+      staleness: reports.find(r => r.venueId === venueId) ?? null
+    };
+  }
+
+  private sendJson(
+    res: http.ServerResponse,
+    status: number,
+    body: unknown,
+    headers: http.OutgoingHttpHeaders = {}
+  ): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Access-Control-Allow-Origin': '*',
+      ...headers
+    });
+    res.end(JSON.stringify(body, null, 2));
+  }
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { EventSchema, Event } from './event';
+
+export const EventFieldChangeSchema = z.object({
+  at: z.string(),
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+export type EventFieldChange = z.infer<typeof EventFieldChangeSchema>;
+
+export const EventHistoryStatusSchema = z.enum(['active', 'past', 'cancelled', 'rescheduled']);
+
+export type EventHistoryStatus = z.infer<typeof EventHistoryStatusSchema>;
+
+export const EventHistoryEntrySchema = z.object({
+  id: z.string(),
+  venueId: z.string(),
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+  status: EventHistoryStatusSchema,
+  statusChangedAt: z.string().optional(),
+  rescheduledTo: z.string().optional(), // id of the event that replaced this one
+  rescheduledFrom: z.string().optional(),
+  sequence: z.number().default(0), // bumped on every recorded change
+  event: EventSchema, // latest version seen
+  changes: z.array(EventFieldChangeSchema).default([])
+});
+
+export type EventHistoryEntry = z.infer<typeof EventHistoryEntrySchema>;
+
+export const EventHistoryFileSchema = z.object({
+  version: z.string().default('1.0.0'),
+  updatedAt: z.string(),
+  runs: z.array(z.string()).default([]), // timestamps of recorded runs, oldest first
+  events: z.record(z.string(), EventHistoryEntrySchema)
+});
+
+export type EventHistoryFile = z.infer<typeof EventHistoryFileSchema>;
+
+/**
+ * Revision info for calendar clients: SEQUENCE and LAST-MODIFIED.
+ */
+export interface EventRevision {
+  sequence: number;
+  lastModified: string;
+}
+
+/**
+ * What changed between history snapshots: events first seen, edited, dropped
+ * from a venue's listing while still upcoming, or replaced by a new date.
+ */
+export interface EventChangeSet {
+  since: string | null;
+  generatedAt: string;
+  new: Event[];
+  changed: { event: Event; changes: EventFieldChange[] }[];
+  cancelled: Event[];
+  rescheduled: { from: Event; to: Event }[];
+}
@@ -24,7 +24,8 @@ export const VenueInfoSchema = z.object({
   state: z.string().optional(),
   zip: z.string().optional(),
   url: z.string().url().optional(),
-  phone: z.string().optional()
+  phone: z.string().optional(),
+  timezone: z.string().optional() // IANA zone, e.g. America/Los_Angeles
 });
 
 export type VenueInfo = z.infer<typeof VenueInfoSchema>;
@@ -36,14 +37,20 @@ export const EventSchema = z.object({
   date: z.string(), // ISO date string
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  start: z.string().optional(), // ISO datetime with the venue's UTC offset
+  end: z.string().optional(),
+  allDay: z.boolean().optional(), // true when no start time was found
   venue: VenueInfoSchema,
   type: EventTypeSchema.optional(),
   tags: z.array(z.string()).default([]),
   url: z.string().url().optional(),
   imageUrl: z.string().url().optional(),
   price: z.string().optional(),
+  location: z.string().optional(), // place named by the listing, e.g. "Back patio" or an off-site venue
   isRecurring: z.boolean().default(false),
   recurringPattern: z.string().optional(),
+  rrule: z.string().optional(), // RFC 5545 RRULE value, e.g. FREQ=MONTHLY;BYDAY=-1FR
+  occurrences: z.array(z.string()).optional(), // expanded start datetimes within the horizon
   scrapedAt: z.string(),
   source: z.string(),
   confidence: z.number().min(0).max(1).default(1)
@@ -2,3 +2,4 @@ export * from './event';
 export * from './venue-config';
 export * from './scraper-result';
 export * from './venue-status';
+export * from './event-history';
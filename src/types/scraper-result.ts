@@ -9,13 +9,28 @@ export const ScraperErrorSchema = z.object({
 
 export type ScraperError = z.infer<typeof ScraperErrorSchema>;
 
+export const SourceMetadataSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  url: z.string(),
+  platform: z.string(),
+  success: z.boolean(),
+  eventCount: z.number(),
+  duration: z.number(),
+  debugBundle: z.string().optional()
+});
+
+export type SourceMetadata = z.infer<typeof SourceMetadataSchema>;
+
 export const ScraperMetadataSchema = z.object({
   venueId: z.string(),
   venueName: z.string(),
   url: z.string(),
   scrapedAt: z.string(),
   duration: z.number(),
-  version: z.string().default('1.0.0')
+  version: z.string().default('1.0.0'),
+  sources: z.array(SourceMetadataSchema).optional(), // venues scraped from several pages
+  debugBundle: z.string().optional() // directory of the debug bundle saved for a failed or empty scrape
 });
 
 export type ScraperMetadata = z.infer<typeof ScraperMetadataSchema>;
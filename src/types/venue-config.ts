@@ -36,19 +36,256 @@ export const PlatformSchema = z.enum([
 
 export type Platform = z.infer<typeof PlatformSchema>;
 
+/**
+ * Regular expressions from config. Length-capped like selectors and checked
+ * to compile at load time.
+ */
+const RegexSchema = z.string().max(200).refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid regular expression' }
+);
+
+export const FieldTransformSchema = z.union([
+  z.enum(['trim', 'lowercase', 'uppercase']),
+  z.object({ stripPrefix: z.string() }),
+  z.object({ stripSuffix: z.string() }),
+  z.object({ replace: RegexSchema, with: z.string().default('') }),
+  // "7 - 10pm" -> "7 pm" / "10pm"
+  z.object({ range: z.enum(['start', 'end']) })
+]);
+
+export type FieldTransform = z.infer<typeof FieldTransformSchema>;
+
+/**
+ * How to read one field from an event container. Steps run in order:
+ * select, read text or attribute (joining every match when `join` is set),
+ * regex capture, transforms, then `default` if nothing is left.
+ */
+export const FieldRuleSchema = z.object({
+  selector: CssSelectorSchema.optional(), // relative to the event container; omit to read the container
+  attr: z.string().regex(/^[\w:-]+$/).optional(), // e.g. "datetime", "content", "data-start"
+  join: z.string().optional(), // separator for joining all matches instead of reading the first
+  regex: RegexSchema.optional(), // keeps capture group 1, or the whole match without groups
+  transforms: z.array(FieldTransformSchema).default([]),
+  default: z.string().optional()
+});
+
+export type FieldRule = z.infer<typeof FieldRuleSchema>;
+
+// A plain selector (text of the first match), a rule, or fallbacks tried in order
+export const FieldSchema = z.union([
+  CssSelectorSchema,
+  FieldRuleSchema,
+  z.array(z.union([CssSelectorSchema, FieldRuleSchema])).min(1)
+]);
+
+export type Field = z.infer<typeof FieldSchema>;
+
 export const SelectorsSchema = z.object({
   eventContainer: CssSelectorSchema,
-  title: CssSelectorSchema,
-  date: CssSelectorSchema.optional(),
-  time: CssSelectorSchema.optional(),
-  description: CssSelectorSchema.optional(),
-  link: CssSelectorSchema.optional(),
-  image: CssSelectorSchema.optional(),
-  price: CssSelectorSchema.optional()
+  title: FieldSchema,
+  date: FieldSchema.optional(),
+  time: FieldSchema.optional(),
+  endTime: FieldSchema.optional(),
+  description: FieldSchema.optional(),
+  link: FieldSchema.optional(),
+  image: FieldSchema.optional(),
+  price: FieldSchema.optional(),
+  location: FieldSchema.optional()
 });
 
 export type Selectors = z.infer<typeof SelectorsSchema>;
 
+export const DetailFieldSchema = z.enum(['description', 'time', 'endTime', 'price', 'image', 'location']);
+
+export type DetailField = z.infer<typeof DetailFieldSchema>;
+
+/**
+ * Follows each event's own page to fill in what the listing lacks. Fields
+ * come from `selectors` (read from the whole page) and the page's schema.org
+ * data; listing values win unless the field is named in `overwrite`.
+ */
+export const DetailsSchema = z.object({
+  enabled: z.boolean().default(true),
+  selectors: z.object({
+    description: FieldSchema.optional(),
+    time: FieldSchema.optional(),
+    endTime: FieldSchema.optional(),
+    price: FieldSchema.optional(),
+    image: FieldSchema.optional(),
+    location: FieldSchema.optional()
+  }).default({}),
+  structuredData: z.boolean().default(true),
+  overwrite: z.array(DetailFieldSchema).default([]),
+  sameHostOnly: z.boolean().default(true), // skip ticketing and other off-site links
+  maxPages: z.number().int().positive().default(50)
+});
+
+export type Details = z.infer<typeof DetailsSchema>;
+
+/**
+ * Browser steps run after the page loads and before its HTML is captured, for
+ * cookie banners, age gates, filters and month navigation. Selectors are
+ * Playwright selectors (CSS or `text=...`). After a `frame` step the following
+ * steps act inside the first iframe whose URL matches, and the captured HTML
+ * is that frame's.
+ */
+export const BrowserStepSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('click'),
+    selector: CssSelectorSchema,
+    optional: z.boolean().default(false) // skip when the element isn't there (e.g. an age gate already passed)
+  }),
+  z.object({ action: z.literal('fill'), selector: CssSelectorSchema, value: z.string().max(200) }),
+  z.object({ action: z.literal('select'), selector: CssSelectorSchema, value: z.string().max(200) }),
+  z.object({
+    action: z.literal('waitForSelector'),
+    selector: CssSelectorSchema,
+    state: z.enum(['attached', 'visible']).default('attached'),
+    timeout: z.number().int().positive().optional()
+  }),
+  z.object({ action: z.literal('waitForNetworkIdle'), timeout: z.number().int().positive().optional() }),
+  z.object({ action: z.literal('wait'), ms: z.number().int().positive().max(30000) }),
+  z.object({ action: z.literal('frame'), url: RegexSchema }),
+  z.object({
+    action: z.literal('scrollUntilStable'),
+    maxScrolls: z.number().int().positive().max(50).default(20),
+    delay: z.number().int().positive().default(500) // ms between scrolls
+  })
+]);
+
+export type BrowserStep = z.infer<typeof BrowserStepSchema>;
+
+/**
+ * Requests the browser skips: Playwright resource types, plus "analytics"
+ * for well-known tracking hosts.
+ */
+export const BlockedResourceSchema = z.enum(['image', 'font', 'media', 'stylesheet', 'analytics']);
+
+export type BlockedResource = z.infer<typeof BlockedResourceSchema>;
+
+/**
+ * JSON responses recorded while the browser loads the page (e.g. the API a
+ * calendar widget renders from). Events found in them are used instead of
+ * the rendered widget markup.
+ */
+export const ResponseCaptureSchema = z.object({
+  url: RegexSchema, // matched against response URLs
+  maxResponses: z.number().int().positive().max(100).default(20)
+});
+
+export type ResponseCapture = z.infer<typeof ResponseCaptureSchema>;
+
+/**
+ * Listing pages spread over several URLs. Pages come from following a
+ * next-page link or from a URL template; `loadMoreSelector` additionally
+ * clicks a "load more" control in the browser until it is exhausted.
+ */
+export const PaginationSchema = z.object({
+  nextSelector: CssSelectorSchema.optional(), // link whose href is the next page
+  // Relative or absolute URL with {page}, {year} and {month} (MM) placeholders;
+  // months count forward from the current one
+  urlTemplate: z.string().optional(),
+  startPage: z.number().int().min(0).default(1), // {page} value of the first page
+  loadMoreSelector: CssSelectorSchema.optional(), // requires useBrowser
+  maxPages: z.number().int().positive().max(50).default(10), // also caps load-more clicks
+  stopWhenEmpty: z.boolean().default(true) // stop at the first page without new events
+}).refine(
+  (pagination) => pagination.nextSelector || pagination.urlTemplate || pagination.loadMoreSelector,
+  { message: 'Pagination needs nextSelector, urlTemplate or loadMoreSelector' }
+);
+
+export type Pagination = z.infer<typeof PaginationSchema>;
+
+export const WordPressApiSchema = z.enum(['auto', 'tribe', 'none']);
+
+export type WordPressApi = z.infer<typeof WordPressApiSchema>;
+
+/**
+ * WordPress events plugin REST APIs. "auto" looks The Events Calendar up in
+ * the site's /wp-json/ index; any API failure falls back to scraping the page.
+ * Unset, it is "auto" for the generic scraper and "none" for venue-specific
+ * ones, whose page parsing the API would bypass.
+ */
+export const WordPressOptionsSchema = z.object({
+  api: WordPressApiSchema.optional(),
+  siteUrl: z.string().url().optional(), // WordPress root; defaults to the venue url's origin
+  apiPath: z.string().optional(), // route under /wp-json/ when the plugin's default doesn't apply
+  categories: z.array(z.string()).default([]), // category slugs or ids
+  tags: z.array(z.string()).default([]), // tag slugs or ids
+  lookaheadDays: z.number().int().positive().default(180),
+  windowDays: z.number().int().positive().default(31), // size of each date-range request
+  perPage: z.number().int().min(1).max(100).default(50)
+});
+
+export type WordPressOptions = z.infer<typeof WordPressOptionsSchema>;
+
+/**
+ * Squarespace events collections served as JSON (`?format=json`). Falls back
+ * to scraping the page when the url isn't an events collection.
+ */
+export const SquarespaceOptionsSchema = z.object({
+  json: z.boolean().default(true),
+  collectionUrl: z.string().url().optional(), // events page when the venue url is elsewhere
+  maxPages: z.number().int().positive().default(10)
+});
+
+export type SquarespaceOptions = z.infer<typeof SquarespaceOptionsSchema>;
+
+/**
+ * Shopify stores that sell event tickets as products: the collection's
+ * storefront JSON is read and dates are taken from product tags, metafields,
+ * variant names or titles. Falls back to scraping the page.
+ */
+export const ShopifyOptionsSchema = z.object({
+  collection: z.string().regex(/^[\w-]+$/).default('events'), // collection handle
+  products: z.array(z.string().regex(/^[\w-]+$/)).default([]), // extra product handles outside the collection
+  siteUrl: z.string().url().optional(), // store root; defaults to the venue url's origin
+  maxPages: z.number().int().positive().default(5)
+});
+
+export type ShopifyOptions = z.infer<typeof ShopifyOptionsSchema>;
+
+/**
+ * One of several pages a venue publishes events on. Each source is scraped
+ * as if it were the venue's only page, with its own platform or scraper,
+ * selectors and fetch settings; `config` values override the venue's.
+ */
+export const VenueSourceSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/), // unique within the venue
+  name: z.string().optional(),
+  url: z.string().url(),
+  enabled: z.boolean().default(true),
+  platform: PlatformSchema.optional(), // defaults to the venue's platform
+  scraper: z.string().optional(), // registered scraper key, e.g. a venue-specific scraper
+  selectors: SelectorsSchema.optional(),
+  config: z.object({
+    useBrowser: z.boolean().optional(),
+    waitForSelector: CssSelectorSchema.optional(),
+    browserSteps: z.array(BrowserStepSchema).max(30).optional(),
+    captureResponses: ResponseCaptureSchema.optional(),
+    blockResources: z.array(BlockedResourceSchema).optional(),
+    pageTimeout: z.number().int().positive().optional(),
+    timeout: z.number().optional(),
+    retries: z.number().optional(),
+    structuredData: z.enum(['auto', 'only', 'off']).optional()
+  }).optional(),
+  pagination: PaginationSchema.optional(),
+  details: DetailsSchema.optional(),
+  wordpress: WordPressOptionsSchema.optional(),
+  squarespace: SquarespaceOptionsSchema.optional(),
+  shopify: ShopifyOptionsSchema.optional()
+});
+
+export type VenueSource = z.infer<typeof VenueSourceSchema>;
+
 export const VenueConfigSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -67,11 +304,29 @@ export const VenueConfigSchema = z.object({
   config: z.object({
     useBrowser: z.boolean().default(false),
     waitForSelector: CssSelectorSchema.optional(),
+    browserSteps: z.array(BrowserStepSchema).max(30).optional(), // requires useBrowser
+    captureResponses: ResponseCaptureSchema.optional(), // requires useBrowser
+    // Browser requests to skip; nothing is skipped unless set
+    blockResources: z.array(BlockedResourceSchema).optional(),
+    pageTimeout: z.number().int().positive().optional(), // hard limit per browser page, ms (default 120000)
     timeout: z.number().default(30000),
     retries: z.number().default(3),
     dateFormat: z.string().optional(),
-    timezone: z.string().default('America/Los_Angeles')
+    timezone: z.string().default('America/Los_Angeles'),
+    recurrenceHorizonDays: z.number().int().positive().default(90),
+    // schema.org events embedded in the page: merged with selector results ("auto"),
+    // used exclusively ("only"), or ignored ("off")
+    structuredData: z.enum(['auto', 'only', 'off']).default('auto')
   }).prefault({}),
+  pagination: PaginationSchema.optional(),
+  details: DetailsSchema.optional(),
+  wordpress: WordPressOptionsSchema.optional(),
+  squarespace: SquarespaceOptionsSchema.optional(),
+  shopify: ShopifyOptionsSchema.optional(),
+  sources: z.array(VenueSourceSchema).min(1).optional().refine(
+    (sources) => !sources || new Set(sources.map(source => source.id)).size === sources.length,
+    { message: 'Source ids must be unique' }
+  ),
   customParser: z.string().optional()
 });
 
@@ -1,102 +1,371 @@
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
+import { chromium, Browser, Page, BrowserContext, Frame, Response, Route } from 'playwright';
+import { BlockedResource, BrowserStep } from '../types';
 import { logger } from './logger';
+import { getFixtureStore } from './fixture-store';
+import { getScrapeContext } from './scrape-context';
+import type { DebugRecorder } from './debug-bundle';
 
 export interface BrowserClientOptions {
   timeout?: number;
   headless?: boolean;
   userAgent?: string;
+  maxPages?: number; // pages open at once across all venues
+  pageTimeout?: number; // hard limit on one fetch, from opening the page to capture
+  blockResources?: BlockedResource[]; // default for fetches that don't set their own (none)
 }
 
 export interface FetchOptions {
   waitForSelector?: string;
   waitForTimeout?: number;
   timeout?: number;
+  loadMoreSelector?: string; // clicked repeatedly until it disappears
+  maxLoadMore?: number;
+  steps?: BrowserStep[]; // run after load, before anything else
+  capture?: ResponseCaptureOptions;
+  blockResources?: BlockedResource[]; // [] loads everything
+  pageTimeout?: number;
 }
 
-export interface FetchWithAgeVerificationOptions extends FetchOptions {
-  ageVerificationSelector?: string;
+export interface ResponseCaptureOptions {
+  url: string; // regex matched against response URLs
+  maxResponses: number;
+}
+
+/**
+ * A JSON response the page received while loading, e.g. the API call a
+ * calendar widget renders from.
+ */
+export interface CapturedResponse<T = unknown> {
+  url: string;
+  status: number;
+  body: T;
+}
+
+export interface BrowserPage {
+  html: string;
+  responses: CapturedResponse[]; // empty unless capture was requested
 }
 
 const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
+const ANALYTICS_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'doubleclick.net',
+  'connect.facebook.net',
+  'hotjar.com',
+  'clarity.ms',
+  'segment.com',
+  'segment.io',
+  'nr-data.net'
+];
+
+// Contexts of fetches made outside a scrape share this key
+const SHARED_CONTEXT = '_shared';
+
+// Upper bound on reading a page for a debug bundle, which may be wedged
+const DEBUG_CAPTURE_TIMEOUT = 10000;
+
+/**
+ * Shared headless Chromium. Each venue gets its own browser context, so
+ * cookies and storage (age gates, consent banners) never leak between venues;
+ * at most `maxPages` pages are open at once. A browser that crashes or
+ * disconnects is relaunched on the next fetch, and a fetch it took down is
+ * retried once.
+ */
 export class BrowserClient {
   private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
+  private contexts: Map<string, Promise<BrowserContext>> = new Map();
+  private initializing: Promise<void> | null = null;
   private options: Required<BrowserClientOptions>;
+  private openPages = 0;
+  private waiting: (() => void)[] = [];
+  private crashes = 0;
 
   constructor(options: BrowserClientOptions = {}) {
     this.options = {
       timeout: options.timeout ?? 30000,
       headless: options.headless ?? true,
-      userAgent: options.userAgent ?? DEFAULT_USER_AGENT
+      userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+      maxPages: Math.max(1, options.maxPages ?? 2),
+      pageTimeout: options.pageTimeout ?? 120000,
+      // Venues were verified with everything loading, so blocking is opt-in
+      blockResources: options.blockResources ?? []
     };
   }
 
   async initialize(): Promise<void> {
-    if (this.browser) return;
+    // Concurrent scrapes share one browser; only the first caller launches it
+    if (!this.initializing) {
+      this.initializing = this.launch().catch(error => {
+        this.initializing = null;
+        throw error;
+      });
+    }
+    return this.initializing;
+  }
 
+  private async launch(): Promise<void> {
     logger.debug('Launching browser...');
-    this.browser = await chromium.launch({
+    const browser = await chromium.launch({
       headless: this.options.headless
     });
 
-    this.context = await this.browser.newContext({
-      userAgent: this.options.userAgent,
-      viewport: { width: 1920, height: 1080 },
-      locale: 'en-US',
-      timezoneId: 'America/Los_Angeles'
+    browser.on('disconnected', () => {
+      // close() clears this.browser first; anything else is a crash
+      if (this.browser !== browser) return;
+      logger.warn('Browser disconnected; it will be relaunched for the next page');
+      this.crashes++;
+      this.browser = null;
+      this.contexts.clear();
+      this.initializing = null;
     });
 
+    this.browser = browser;
     logger.debug('Browser launched successfully');
   }
 
-  async fetchContent(url: string, options: FetchOptions = {}): Promise<string> {
+  private async contextFor(key: string): Promise<BrowserContext> {
     await this.initialize();
+    const browser = this.browser;
+    if (!browser) {
+      throw new Error('Browser not initialized');
+    }
 
-    if (!this.context) {
-      throw new Error('Browser context not initialized');
+    let context = this.contexts.get(key);
+    if (!context) {
+      context = browser.newContext({
+        userAgent: this.options.userAgent,
+        viewport: { width: 1920, height: 1080 },
+        locale: 'en-US',
+        timezoneId: 'America/Los_Angeles'
+      });
+      this.contexts.set(key, context);
+      context.catch(() => this.contexts.delete(key));
     }
+    return context;
+  }
 
-    const page = await this.context.newPage();
-    const timeout = options.timeout ?? this.options.timeout;
+  /**
+   * Closes the venue's context once its scrape is done.
+   */
+  async releaseContext(venueId: string): Promise<void> {
+    const context = this.contexts.get(venueId);
+    if (!context) return;
+
+    this.contexts.delete(venueId);
+    await context.then(c => c.close()).catch(error => {
+      logger.debug(`Could not close browser context for ${venueId}: ${error}`);
+    });
+  }
+
+  async fetchContent(url: string, options: FetchOptions = {}): Promise<string> {
+    return (await this.fetchPage(url, options)).html;
+  }
 
+  /**
+   * Loads the page like fetchContent and also returns the JSON responses
+   * whose URLs match `capture.url`, parsed.
+   */
+  async fetchPage(url: string, options: FetchOptions = {}): Promise<BrowserPage> {
+    const fixtures = getFixtureStore();
+    if (fixtures?.isReplay) {
+      return {
+        html: fixtures.replay<string>('browser', url),
+        responses: options.capture ? fixtures.replay<CapturedResponse[]>('responses', url) : []
+      };
+    }
+
+    const crashes = this.crashes;
+    let result: BrowserPage;
     try {
-      logger.debug(`Browser fetching: ${url}`);
+      result = await this.withPageSlot(() => this.fetchOnce(url, options));
+    } catch (error) {
+      // The disconnect handler has already reset the browser if it went down
+      if (this.crashes === crashes) throw error;
+      logger.warn(`Browser went away while fetching ${url}; retrying with a new browser`);
+      result = await this.withPageSlot(() => this.fetchOnce(url, options));
+    }
 
-      await page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout
-      });
+    fixtures?.record('browser', url, result.html);
+    if (options.capture) {
+      fixtures?.record('responses', url, result.responses);
+    }
+    return result;
+  }
 
-      // Wait for network to be idle (no requests for 500ms)
-      await page.waitForLoadState('networkidle', { timeout }).catch(() => {
-        logger.debug('Network idle timeout, continuing...');
-      });
+  private async withPageSlot<T>(fn: () => Promise<T>): Promise<T> {
+    while (this.openPages >= this.options.maxPages) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
 
-      // Wait for specific selector if provided
-      if (options.waitForSelector) {
-        logger.debug(`Waiting for selector: ${options.waitForSelector}`);
-        try {
-          await page.waitForSelector(options.waitForSelector, {
-            timeout: options.waitForTimeout ?? 10000,
-            state: 'attached'
-          });
-          logger.debug('Selector found');
-        } catch {
-          logger.debug(`Selector not found: ${options.waitForSelector}, continuing with available content`);
-        }
+    this.openPages++;
+    try {
+      return await fn();
+    } finally {
+      this.openPages--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private async fetchOnce(url: string, options: FetchOptions): Promise<BrowserPage> {
+    const scrape = getScrapeContext();
+    const context = await this.contextFor(scrape?.venueId ?? SHARED_CONTEXT);
+    const page = await context.newPage();
+    const pageTimeout = options.pageTimeout ?? this.options.pageTimeout;
+    const navigation: { response?: Response | null } = {};
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut: Promise<void> | undefined;
+
+    // Closing the page aborts whatever step is still waiting on it; a debug
+    // capture of where it got stuck is taken first
+    const hardTimeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Browser page timed out after ${pageTimeout}ms: ${url}`);
+        timedOut = this.recordForDebug(scrape?.debug, page, url, navigation, { error })
+          .finally(() => page.close().catch(() => {}));
+        reject(error);
+      }, pageTimeout);
+    });
+
+    try {
+      await this.blockResources(page, options.blockResources ?? this.options.blockResources);
+      const result = await Promise.race([this.loadPage(page, url, options, navigation), hardTimeout]);
+      await this.recordForDebug(scrape?.debug, page, url, navigation, { html: result.html });
+      return result;
+    } catch (error) {
+      if (!timedOut) {
+        await this.recordForDebug(scrape?.debug, page, url, navigation, { error });
       }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      await timedOut;
+      await page.close().catch(() => {});
+    }
+  }
+
+  /**
+   * Notes a fetch on the scrape's debug recorder: where the page ended up,
+   * its HTML (the captured HTML on success, whatever the page holds on
+   * failure) and, when the recorder asks for one, a screenshot.
+   */
+  private async recordForDebug(
+    debug: DebugRecorder | undefined,
+    page: Page,
+    url: string,
+    navigation: { response?: Response | null },
+    outcome: { html?: string; error?: unknown }
+  ): Promise<void> {
+    if (!debug) return;
+
+    const failed = outcome.error !== undefined;
+    const bounded = <T>(work: Promise<T>) => Promise.race([
+      work.catch(() => undefined),
+      new Promise<undefined>(resolve => setTimeout(() => resolve(undefined), DEBUG_CAPTURE_TIMEOUT))
+    ]);
+
+    const body = outcome.html ?? await bounded(page.content());
+    const screenshot = debug.wantsScreenshot(failed)
+      ? await bounded(page.screenshot({ fullPage: true, type: 'jpeg', quality: 60, timeout: DEBUG_CAPTURE_TIMEOUT }))
+      : undefined;
+
+    debug.record({
+      kind: 'browser',
+      url,
+      finalUrl: page.isClosed() ? undefined : page.url(),
+      status: navigation.response?.status(),
+      headers: navigation.response?.headers(),
+      body,
+      screenshot,
+      error: failed
+        ? (outcome.error instanceof Error ? outcome.error.message : String(outcome.error))
+        : undefined
+    });
+  }
 
-      // Additional wait for any lazy-loaded content
-      if (options.waitForTimeout) {
-        await page.waitForTimeout(options.waitForTimeout);
+  private async blockResources(page: Page, blocked: BlockedResource[]): Promise<void> {
+    if (blocked.length === 0) return;
+
+    const types = new Set<string>(blocked);
+    const analytics = types.has('analytics');
+    await page.route('**/*', (route: Route) => {
+      const request = route.request();
+      if (types.has(request.resourceType()) || (analytics && this.isAnalytics(request.url()))) {
+        return route.abort();
       }
+      return route.continue();
+    });
+  }
 
-      // Scroll to trigger any lazy-loading
-      await this.scrollPage(page);
+  private isAnalytics(url: string): boolean {
+    try {
+      const host = new URL(url).hostname;
+      return ANALYTICS_HOSTS.some(analyticsHost => host === analyticsHost || host.endsWith(`.${analyticsHost}`));
+    } catch {
+      return false;
+    }
+  }
 
+  private async loadPage(
+    page: Page,
+    url: string,
+    options: FetchOptions,
+    navigation: { response?: Response | null }
+  ): Promise<BrowserPage> {
+    const timeout = options.timeout ?? this.options.timeout;
+    const captured = options.capture ? this.captureResponses(page, options.capture) : null;
+
+    logger.debug(`Browser fetching: ${url}`);
+
+    navigation.response = await page.goto(url, {
+      waitUntil: 'domcontentloaded',
+      timeout
+    });
+
+    // Wait for network to be idle (no requests for 500ms)
+    await page.waitForLoadState('networkidle', { timeout }).catch(() => {
+      logger.debug('Network idle timeout, continuing...');
+    });
+
+    // Configured steps may move into an iframe; everything after acts there
+    const frame = options.steps?.length ? await this.runSteps(page, options.steps, timeout) : null;
+    const target = frame ?? page;
+
+    // Wait for specific selector if provided
+    if (options.waitForSelector) {
+      logger.debug(`Waiting for selector: ${options.waitForSelector}`);
+      try {
+        await target.waitForSelector(options.waitForSelector, {
+          timeout: options.waitForTimeout ?? 10000,
+          state: 'attached'
+        });
+        logger.debug('Selector found');
+      } catch {
+        logger.debug(`Selector not found: ${options.waitForSelector}, continuing with available content`);
+      }
+    }
+
+    // Additional wait for any lazy-loaded content
+    if (options.waitForTimeout) {
+      await page.waitForTimeout(options.waitForTimeout);
+    }
+
+    // Scroll to trigger any lazy-loading
+    await this.scrollPage(target);
+
+    if (options.loadMoreSelector) {
+      const clicks = await this.clickLoadMore(target, options.loadMoreSelector, options.maxLoadMore ?? 10, timeout);
+      logger.debug(`Clicked "load more" ${clicks} times`);
+    }
+
+    let html: string;
+    if (frame) {
+      // The steps chose the frame holding the events; capture just that
+      html = await frame.content();
+    } else {
       // Get main page HTML
-      let html = await page.content();
+      html = await page.content();
 
       // Also extract content from iframes (calendar widgets, etc.)
       const iframeContent = await this.extractIframeContent(page);
@@ -106,90 +375,68 @@ export class BrowserClient {
         const encoded = Buffer.from(iframeContent).toString('base64');
         html += `\n<div id="__iframe_content__" data-content="${encoded}"></div>`;
       }
-
-      logger.debug(`Browser received ${html.length} bytes from ${url}`);
-
-      return html;
-    } finally {
-      await page.close();
     }
-  }
 
-  async fetchWithAgeVerification(
-    url: string,
-    options: FetchWithAgeVerificationOptions = {}
-  ): Promise<string> {
-    await this.initialize();
+    logger.debug(`Browser received ${html.length} bytes from ${url}`);
 
-    if (!this.context) {
-      throw new Error('Browser context not initialized');
+    const responses = captured ? await captured() : [];
+    if (options.capture) {
+      logger.debug(`Captured ${responses.length} JSON responses matching ${options.capture.url}`);
     }
 
-    const page = await this.context.newPage();
-    const timeout = options.timeout ?? this.options.timeout;
-
-    try {
-      logger.debug(`Browser fetching with age verification: ${url}`);
-
-      await page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout
-      });
-
-      // Wait for initial load
-      await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {
-        logger.debug('Initial network idle timeout, continuing...');
-      });
-
-      // Handle age verification if present
-      if (options.ageVerificationSelector) {
-        try {
-          const ageButton = await page.$(options.ageVerificationSelector);
-          if (ageButton) {
-            logger.debug('Clicking age verification button');
-            await ageButton.click();
-            await page.waitForTimeout(3000);
-            await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
-          }
-        } catch (e) {
-          logger.debug('Age verification not found or already dismissed');
-        }
-      }
+    return { html, responses };
+  }
 
-      // Wait for specific selector if provided (e.g., iframe)
-      if (options.waitForSelector) {
-        logger.debug(`Waiting for selector: ${options.waitForSelector}`);
-        try {
-          await page.waitForSelector(options.waitForSelector, {
-            timeout: options.waitForTimeout ?? 15000,
-            state: 'attached'
-          });
-          logger.debug('Selector found');
-          // Give iframe content time to load
-          await page.waitForTimeout(3000);
-        } catch {
-          logger.debug(`Selector not found: ${options.waitForSelector}`);
-        }
-      }
+  /**
+   * Starts collecting matching responses. The returned function waits for the
+   * bodies read so far; responses that aren't JSON are skipped.
+   */
+  private captureResponses(page: Page, capture: ResponseCaptureOptions): () => Promise<CapturedResponse[]> {
+    const pattern = new RegExp(capture.url, 'i');
+    const pending: Promise<CapturedResponse | null>[] = [];
+
+    page.on('response', response => {
+      if (pending.length >= capture.maxResponses || !pattern.test(response.url())) return;
+
+      pending.push(response.text()
+        .then(text => ({ url: response.url(), status: response.status(), body: JSON.parse(text) as unknown }))
+        .catch(error => {
+          logger.debug(`Skipping captured response ${response.url()}: ${error}`);
+          return null;
+        }));
+    });
 
-      // Extract content from iframes
-      const iframeContent = await this.extractIframeContent(page);
-      let html = '';
+    return async () => (await Promise.all(pending))
+      .filter((response): response is CapturedResponse => response !== null);
+  }
 
-      if (iframeContent) {
-        // Return iframe content directly since that's what we need
-        html = iframeContent;
-        logger.debug(`Extracted ${html.length} bytes of iframe content`);
-      } else {
-        // Fallback to main page content
-        html = await page.content();
-        logger.debug(`No iframe content, returning main page (${html.length} bytes)`);
+  /**
+   * Clicks a "load more" control until it disappears, a click adds nothing
+   * to the page, or the click budget runs out.
+   */
+  private async clickLoadMore(page: Page | Frame, selector: string, maxClicks: number, timeout: number): Promise<number> {
+    let clicks = 0;
+
+    while (clicks < maxClicks) {
+      const button = page.locator(selector).first();
+      if (!(await button.isVisible().catch(() => false))) break;
+
+      const before = (await page.content()).length;
+      try {
+        await button.click({ timeout: 5000 });
+      } catch {
+        logger.debug(`Could not click load more: ${selector}`);
+        break;
       }
+      clicks++;
 
-      return html;
-    } finally {
-      await page.close();
+      await page.waitForLoadState('networkidle', { timeout }).catch(() => {
+        logger.debug('Network idle timeout after load more, continuing...');
+      });
+      if ((await page.content()).length === before) break;
     }
+
+    return clicks;
   }
 
   private async extractIframeContent(page: Page): Promise<string> {
@@ -220,7 +467,100 @@ export class BrowserClient {
     return iframeContents.join('\n');
   }
 
-  private async scrollPage(page: Page): Promise<void> {
+  /**
+   * Runs a venue's configured steps in order. Missing elements fail the fetch
+   * unless the click is optional; waits that time out are logged and skipped,
+   * like waitForSelector. Returns the frame a `frame` step switched to.
+   */
+  private async runSteps(page: Page, steps: BrowserStep[], timeout: number): Promise<Frame | null> {
+    let target: Page | Frame = page;
+    let frame: Frame | null = null;
+
+    for (const [index, step] of steps.entries()) {
+      logger.debug(`Browser step ${index + 1}: ${step.action}`);
+
+      try {
+        switch (step.action) {
+          case 'click': {
+            const element = target.locator(step.selector).first();
+            if (step.optional && !(await element.isVisible().catch(() => false))) {
+              logger.debug(`Optional element not present: ${step.selector}`);
+              break;
+            }
+            await element.click({ timeout: 5000 });
+            break;
+          }
+          case 'fill':
+            await target.locator(step.selector).first().fill(step.value, { timeout: 5000 });
+            break;
+          case 'select':
+            await target.locator(step.selector).first().selectOption(step.value, { timeout: 5000 });
+            break;
+          case 'waitForSelector':
+            await target.waitForSelector(step.selector, { state: step.state, timeout: step.timeout ?? 10000 })
+              .catch(() => logger.debug(`Selector not found: ${step.selector}, continuing`));
+            break;
+          case 'waitForNetworkIdle':
+            await target.waitForLoadState('networkidle', { timeout: step.timeout ?? timeout })
+              .catch(() => logger.debug('Network idle timeout, continuing...'));
+            break;
+          case 'wait':
+            await page.waitForTimeout(step.ms);
+            break;
+          case 'frame': {
+            const found = await this.waitForFrame(page, new RegExp(step.url, 'i'), timeout);
+            if (found) {
+              frame = found;
+              target = found;
+            } else {
+              logger.debug(`No iframe matching ${step.url}, staying on the current page`);
+            }
+            break;
+          }
+          case 'scrollUntilStable':
+            await this.scrollUntilStable(target, step.maxScrolls, step.delay);
+            break;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        throw new Error(`Browser step ${index + 1} (${step.action}) failed: ${message}`);
+      }
+    }
+
+    return frame;
+  }
+
+  private async waitForFrame(page: Page, pattern: RegExp, timeout: number): Promise<Frame | null> {
+    const deadline = Date.now() + timeout;
+    while (true) {
+      const frame = page.frames().find(f => f !== page.mainFrame() && pattern.test(f.url()));
+      if (frame) {
+        await frame.waitForLoadState('domcontentloaded', { timeout }).catch(() => {});
+        return frame;
+      }
+      if (Date.now() >= deadline) return null;
+      await page.waitForTimeout(250);
+    }
+  }
+
+  /**
+   * Scrolls to the bottom until the document stops growing, for feeds that
+   * load more events as they come into view.
+   */
+  private async scrollUntilStable(target: Page | Frame, maxScrolls: number, delay: number): Promise<void> {
+    let height = await target.evaluate('document.body.scrollHeight') as number;
+
+    for (let i = 0; i < maxScrolls; i++) {
+      await target.evaluate('window.scrollTo(0, document.body.scrollHeight)');
+      await target.waitForTimeout(delay);
+
+      const next = await target.evaluate('document.body.scrollHeight') as number;
+      if (next === height) break;
+      height = next;
+    }
+  }
+
+  private async scrollPage(page: Page | Frame): Promise<void> {
     await page.evaluate(`(async () => {
       const scrollStep = 300;
       const scrollDelay = 100;
@@ -241,13 +581,16 @@ export class BrowserClient {
   }
 
   async close(): Promise<void> {
-    if (this.context) {
-      await this.context.close();
-      this.context = null;
-    }
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+    const browser = this.browser;
+    this.browser = null;
+    this.initializing = null;
+
+    const contexts = Array.from(this.contexts.values());
+    this.contexts.clear();
+    await Promise.all(contexts.map(context => context.then(c => c.close()).catch(() => {})));
+
+    if (browser) {
+      await browser.close();
       logger.debug('Browser closed');
     }
   }
@@ -256,9 +599,13 @@ export class BrowserClient {
 // Singleton instance for shared use
 let browserClientInstance: BrowserClient | null = null;
 
-export function getBrowserClient(): BrowserClient {
+/**
+ * Returns the shared client. Options only apply when it is first created
+ * (e.g. by the CLI before any venue is scraped).
+ */
+export function getBrowserClient(options?: BrowserClientOptions): BrowserClient {
   if (!browserClientInstance) {
-    browserClientInstance = new BrowserClient();
+    browserClientInstance = new BrowserClient(options);
   }
   return browserClientInstance;
 }
@@ -10,10 +10,28 @@ import {
   setHours,
   setMinutes
 } from 'date-fns';
-import { toZonedTime, format as formatTz } from 'date-fns-tz';
+import { toZonedTime, fromZonedTime, formatInTimeZone, format as formatTz } from 'date-fns-tz';
 import { logger } from './logger';
+import { recurrenceEngine } from './recurrence';
 
-const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+export const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+/** A calendar day as written on the venue's page, independent of any timezone. */
+export interface CalendarDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface ClockTime {
+  hours: number;
+  minutes: number;
+}
+
+// ISO strings that pin an instant (trailing Z or numeric offset after a time)
+const EXPLICIT_OFFSET_PATTERN = /T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+const EXPLICIT_TIME_PATTERN = /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const TIME_RANGE_SEPARATOR = /\s*(?:-|–|—|\bto\b|\buntil\b|\btil\b)\s*/i;
 
 const DATE_FORMATS = [
   'MMMM d, yyyy',
@@ -59,6 +77,10 @@ const DAY_NAMES: Record<string, 0 | 1 | 2 | 3 | 4 | 5 | 6> = {
   'saturday': 6, 'sat': 6
 };
 
+const ORDINAL_POSITIONS: Record<string, number> = {
+  'first': 1, 'second': 2, 'third': 3, 'fourth': 4, 'fifth': 5, 'last': -1
+};
+
 export class DateParser {
   private timezone: string;
 
@@ -97,6 +119,10 @@ export class DateParser {
       }
     }
 
+    // Patterns like "last Friday of the month" resolve to their next occurrence
+    const recurringDate = this.nextRecurringDate(dateStr, reference);
+    if (recurringDate) return recurringDate;
+
     // Try relative date parsing
     const relativeDate = this.parseRelativeDate(cleanedDate, reference);
     if (relativeDate) return relativeDate;
@@ -159,6 +185,85 @@ export class DateParser {
     return date.toISOString();
   }
 
+  /**
+   * Splits "11:00 AM - 04:00 PM" or "7-9pm" into start and end parts.
+   * A start without am/pm borrows the end's, unless that would put it after the end.
+   */
+  splitTimeRange(timeStr: string): { start: string; end?: string } {
+    const [start, end] = timeStr.trim().split(TIME_RANGE_SEPARATOR, 2).map(p => p.trim());
+    if (!end) {
+      return { start };
+    }
+
+    const endPeriod = end.match(/\d\s*([ap])\.?m?\.?$/i);
+    if (endPeriod && /^\d{1,2}(?::\d{2})?$/.test(start)) {
+      const period = endPeriod[1].toLowerCase() === 'a' ? 'am' : 'pm';
+      const startHour = parseInt(start, 10);
+      const endHour = parseInt(end, 10);
+      const inferred = period === 'pm' && startHour > endHour && startHour !== 12 ? 'am' : period;
+      return { start: `${start} ${inferred}`, end };
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Returns the calendar day (and time, when the source string carried one) that
+   * a parsed date refers to. Strings with an explicit UTC offset are converted
+   * into the venue's timezone; everything else was parsed as wall-clock time.
+   */
+  getWallClock(
+    date: Date,
+    sourceStr: string,
+    timezone: string = this.timezone
+  ): { day: CalendarDay; time: ClockTime | null } {
+    const trimmed = sourceStr.trim();
+
+    if (EXPLICIT_OFFSET_PATTERN.test(trimmed)) {
+      const [datePart, timePart] = formatInTimeZone(date, timezone, 'yyyy-MM-dd HH:mm').split(' ');
+      const [year, month, day] = datePart.split('-').map(Number);
+      const [hours, minutes] = timePart.split(':').map(Number);
+      return { day: { year, month, day }, time: { hours, minutes } };
+    }
+
+    return {
+      day: { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() },
+      time: EXPLICIT_TIME_PATTERN.test(trimmed)
+        ? { hours: date.getHours(), minutes: date.getMinutes() }
+        : null
+    };
+  }
+
+  /**
+   * Builds the instant for a wall-clock day/time in the given timezone.
+   */
+  toZonedInstant(day: CalendarDay, time: ClockTime | null, timezone: string = this.timezone): Date {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const hours = time?.hours ?? 0;
+    const minutes = time?.minutes ?? 0;
+    return fromZonedTime(
+      `${day.year}-${pad(day.month)}-${pad(day.day)}T${pad(hours)}:${pad(minutes)}:00`,
+      timezone
+    );
+  }
+
+  addCalendarDays(day: CalendarDay, amount: number): CalendarDay {
+    const shifted = new Date(Date.UTC(day.year, day.month - 1, day.day + amount));
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate()
+    };
+  }
+
+  /**
+   * Formats an instant as ISO 8601 with the timezone's UTC offset,
+   * e.g. "2026-02-04T19:00:00-08:00".
+   */
+  toZonedISOString(date: Date, timezone: string = this.timezone): string {
+    return formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+  }
+
   toLocalString(date: Date, fmt: string = 'yyyy-MM-dd HH:mm:ss'): string {
     const zonedDate = toZonedTime(date, this.timezone);
     return formatTz(zonedDate, fmt, { timeZone: this.timezone });
@@ -219,8 +324,48 @@ export class DateParser {
     return null;
   }
 
+  /**
+   * Next date (on or after the reference day) of a month-based or every-other
+   * pattern. Plain weekly patterns are left to parseRelativeDate.
+   */
+  private nextRecurringDate(dateStr: string, reference: Date): Date | null {
+    const pattern = this.detectRecurringPattern(dateStr);
+    const rule = pattern ? recurrenceEngine.parsePattern(pattern) : null;
+    if (!rule || (rule.ordinals.length === 0 && rule.interval === 1)) return null;
+
+    const next = recurrenceEngine.nextOccurrence(rule, {
+      year: reference.getFullYear(),
+      month: reference.getMonth() + 1,
+      day: reference.getDate()
+    });
+    return next ? new Date(next.year, next.month - 1, next.day) : null;
+  }
+
   detectRecurringPattern(dateStr: string): string | null {
     const lower = dateStr.toLowerCase();
+    const days = 'monday|tuesday|wednesday|thursday|friday|saturday|sunday';
+
+    // "every other Tuesday"
+    const alternateMatch = lower.match(new RegExp(`every\\s+other\\s+(${days})`));
+    if (alternateMatch) return `weekly/2:${alternateMatch[1]}`;
+
+    // "1st and 3rd Thursday", "last Friday of the month", "second & fourth Tuesday"
+    const ordinal = '(?:[1-5](?:st|nd|rd|th)|first|second|third|fourth|fifth|last)';
+    const ordinalMatch = lower.match(
+      new RegExp(`\\b(${ordinal}(?:\\s*(?:,|and|&)\\s*${ordinal})*)\\s+(${days})s?\\b`)
+    );
+    if (ordinalMatch) {
+      const positions = ordinalMatch[1]
+        .split(/\s*(?:,|and|&)\s*/)
+        .map(o => ORDINAL_POSITIONS[o] ?? parseInt(o, 10))
+        .filter(o => !isNaN(o));
+
+      // A bare "last Friday" only means monthly when the month is mentioned
+      const isMonthly = positions.length > 1 || positions[0] !== -1 || /\bmonth/.test(lower);
+      if (positions.length > 0 && isMonthly) {
+        return `monthly:${positions.join(',')}:${ordinalMatch[2]}`;
+      }
+    }
 
     if (lower.includes('every')) {
       const dayMatch = lower.match(/every\s*(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i);
@@ -231,12 +376,6 @@ export class DateParser {
       if (lower.includes('day')) return 'daily';
     }
 
-    // "1st and 3rd Thursday"
-    const ordinalMatch = lower.match(/(\d+)(st|nd|rd|th)\s+and\s+(\d+)(st|nd|rd|th)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i);
-    if (ordinalMatch) {
-      return `monthly:${ordinalMatch[1]},${ordinalMatch[3]}:${ordinalMatch[5]}`;
-    }
-
     return null;
   }
 }
@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { Field, ScraperError, Selectors } from '../types';
+
+export const DEFAULT_DEBUG_DIR = path.join(process.cwd(), 'output', 'debug');
+
+// Enough for the listing pages; detail pages fetched after them are dropped
+const MAX_RECORDED_PAGES = 10;
+
+// Screenshots of pages that loaded fine; the first is the listing page, which
+// is what a scrape that found nothing needs
+const MAX_LOADED_SCREENSHOTS = 1;
+
+// Bundles kept per venue; older ones are removed when a new one is written
+const MAX_BUNDLES_PER_VENUE = 5;
+
+// Session cookies have no place in a bundle that may be shared or committed
+const PRIVATE_HEADERS = new Set(['set-cookie', 'cookie']);
+
+export interface DebugPage {
+  kind: 'http' | 'json' | 'browser';
+  url: string;
+  finalUrl?: string; // after redirects
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  screenshot?: Buffer; // JPEG, browser pages only
+  error?: string;
+  fetchedAt: string;
+}
+
+/**
+ * Collects what the HTTP and browser clients fetched during one scrape, so a
+ * failed scrape can be written out as a debug bundle.
+ */
+export class DebugRecorder {
+  readonly pages: DebugPage[] = [];
+
+  record(page: Omit<DebugPage, 'fetchedAt'>): void {
+    if (this.pages.length >= MAX_RECORDED_PAGES) return;
+    const headers = page.headers && Object.fromEntries(
+      Object.entries(page.headers).filter(([name]) => !PRIVATE_HEADERS.has(name.toLowerCase()))
+    );
+    this.pages.push({ ...page, headers, fetchedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Whether the browser should screenshot the page it is about to record.
+   * Failed fetches always get one; pages that loaded only until
+   * MAX_LOADED_SCREENSHOTS have been taken.
+   */
+  wantsScreenshot(failed: boolean): boolean {
+    if (this.pages.length >= MAX_RECORDED_PAGES) return false;
+    if (failed) return true;
+    return this.pages.filter(page => page.screenshot && !page.error).length < MAX_LOADED_SCREENSHOTS;
+  }
+}
+
+export interface DebugBundleInput {
+  venueId: string;
+  url: string;
+  reason: 'error' | 'no-events';
+  errors: ScraperError[];
+  warnings: string[];
+  selectors?: Selectors;
+  pages: DebugPage[];
+}
+
+interface SelectorCheck {
+  field: string;
+  selector: string;
+  matches: number[]; // per recorded HTML page
+}
+
+/**
+ * Writes debug bundles to `<dir>/<venueId>/<timestamp>/`: `bundle.json`
+ * (errors, warnings, every fetch with its final URL, status and headers, and
+ * how many elements each configured selector matched), plus the fetched
+ * bodies (`page-N.html` / `.json`) and browser screenshots (`page-N.jpg`).
+ * Only the latest MAX_BUNDLES_PER_VENUE bundles of a venue are kept.
+ */
+export class DebugBundleWriter {
+  readonly dir: string;
+
+  constructor(dir: string = DEFAULT_DEBUG_DIR) {
+    this.dir = dir;
+  }
+
+  async write(input: DebugBundleInput): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const bundleDir = path.join(this.dir, input.venueId, timestamp);
+    await fs.mkdir(bundleDir, { recursive: true });
+
+    const pages = [];
+    for (const [index, page] of input.pages.entries()) {
+      const name = `page-${index + 1}`;
+      const bodyFile = page.body !== undefined ? `${name}.${page.kind === 'json' ? 'json' : 'html'}` : undefined;
+      const screenshotFile = page.screenshot ? `${name}.jpg` : undefined;
+
+      if (bodyFile) await fs.writeFile(path.join(bundleDir, bodyFile), page.body!, 'utf-8');
+      if (screenshotFile) await fs.writeFile(path.join(bundleDir, screenshotFile), page.screenshot!);
+
+      const { body: _body, screenshot: _screenshot, ...meta } = page;
+      pages.push({ ...meta, bodyFile, screenshotFile });
+    }
+
+    const bundle = {
+      venueId: input.venueId,
+      url: input.url,
+      reason: input.reason,
+      createdAt: new Date().toISOString(),
+      errors: input.errors.map(({ code, message }) => ({ code, message })),
+      warnings: input.warnings,
+      pages,
+      selectors: input.selectors ? this.checkSelectors(input.selectors, input.pages) : []
+    };
+    await fs.writeFile(path.join(bundleDir, 'bundle.json'), JSON.stringify(bundle, null, 2), 'utf-8');
+    await this.prune(path.join(this.dir, input.venueId));
+
+    return bundleDir;
+  }
+
+  /**
+   * Removes all but the newest bundles in a venue's directory. Timestamped
+   * names sort chronologically.
+   */
+  private async prune(venueDir: string): Promise<void> {
+    const entries = await fs.readdir(venueDir, { withFileTypes: true });
+    const bundles = entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of bundles.slice(0, -MAX_BUNDLES_PER_VENUE)) {
+      await fs.rm(path.join(venueDir, name), { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Counts each configured selector's matches on every recorded HTML page;
+   * a zero usually points straight at the broken one.
+   */
+  private checkSelectors(selectors: Selectors, pages: DebugPage[]): SelectorCheck[] {
+    const documents = pages
+      .filter(page => page.kind !== 'json' && page.body)
+      .map(page => cheerio.load(page.body!));
+
+    const checks: SelectorCheck[] = [];
+    for (const [field, value] of Object.entries(selectors)) {
+      for (const selector of this.selectorsOf(value as Field | undefined)) {
+        checks.push({
+          field,
+          selector,
+          matches: documents.map($ => {
+            try {
+              return $(selector).length;
+            } catch {
+              return -1; // not valid for cheerio (e.g. a Playwright-only selector)
+            }
+          })
+        });
+      }
+    }
+    return checks;
+  }
+
+  private selectorsOf(field: Field | undefined): string[] {
+    if (!field) return [];
+    const rules = Array.isArray(field) ? field : [field];
+    return rules
+      .map(rule => typeof rule === 'string' ? rule : rule.selector)
+      .filter((selector): selector is string => !!selector);
+  }
+}
+
+let debugBundleWriter: DebugBundleWriter | null = new DebugBundleWriter();
+
+/**
+ * The writer BaseScraper saves bundles with; null turns bundles off.
+ */
+export function setDebugBundleWriter(writer: DebugBundleWriter | null): void {
+  debugBundleWriter = writer;
+}
+
+export function getDebugBundleWriter(): DebugBundleWriter | null {
+  return debugBundleWriter;
+}
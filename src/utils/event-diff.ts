@@ -0,0 +1,76 @@
+import { Event } from '../types';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangedEvent {
+  id: string;
+  title: string;
+  changes: FieldChange[];
+}
+
+export interface EventDiff {
+  added: Event[];
+  removed: Event[];
+  changed: ChangedEvent[];
+}
+
+/**
+ * Compares two versions of the same event field by field.
+ * Fields listed in `ignore` (e.g. scrapedAt) are skipped.
+ */
+export function diffEventFields(
+  before: Event,
+  after: Event,
+  ignore: string[] = []
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (ignore.includes(field)) continue;
+
+    const a = (before as Record<string, unknown>)[field];
+    const b = (after as Record<string, unknown>)[field];
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Matches events by id and reports which were added, removed or changed.
+ */
+export function diffEvents(
+  before: Event[],
+  after: Event[],
+  ignore: string[] = []
+): EventDiff {
+  const beforeById = new Map(before.map(e => [e.id, e]));
+  const afterById = new Map(after.map(e => [e.id, e]));
+
+  const added = after.filter(e => !beforeById.has(e.id));
+  const removed = before.filter(e => !afterById.has(e.id));
+  const changed: ChangedEvent[] = [];
+
+  for (const event of after) {
+    const previous = beforeById.get(event.id);
+    if (!previous) continue;
+
+    const changes = diffEventFields(previous, event, ignore);
+    if (changes.length > 0) {
+      changed.push({ id: event.id, title: event.title, changes });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+export function isEmptyDiff(diff: EventDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
@@ -0,0 +1,88 @@
+import { isValid, parseISO } from 'date-fns';
+import { Event, EventType, EventTypeSchema } from '../types';
+
+/**
+ * Query over a list of events. Every list field matches any of its values;
+ * dates are inclusive calendar days (yyyy-MM-dd) in each venue's timezone.
+ */
+export interface EventFilter {
+  from?: string;
+  to?: string;
+  venues?: string[]; // venue config ids (event.source)
+  types?: EventType[];
+  tags?: string[];
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Builds a filter from query-string style parameters
+ * (`from`, `to`, `venue`, `type`, `tag`; lists are comma-separated).
+ * Throws on malformed dates or unknown event types.
+ */
+export function parseEventFilter(params: Record<string, string | undefined>): EventFilter {
+  const list = (value: string | undefined) => value
+    ? value.split(',').map(v => v.trim()).filter(Boolean)
+    : undefined;
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params[key];
+    if (value && (!DAY_PATTERN.test(value) || !isValid(parseISO(value)))) {
+      throw new Error(`Invalid ${key} date "${value}" (expected YYYY-MM-DD)`);
+    }
+  }
+
+  const types = list(params.type)?.map(type => {
+    const parsed = EventTypeSchema.safeParse(type.toLowerCase());
+    if (!parsed.success) {
+      throw new Error(`Unknown event type "${type}" (expected one of ${EventTypeSchema.options.join(', ')})`);
+    }
+    return parsed.data;
+  });
+
+  return {
+    from: params.from || undefined,
+    to: params.to || undefined,
+    venues: list(params.venue),
+    types,
+    tags: list(params.tag)?.map(tag => tag.toLowerCase())
+  };
+}
+
+export function filterEvents(events: Event[], filter: EventFilter): Event[] {
+  return events.filter(event => matchesFilter(event, filter));
+}
+
+export function matchesFilter(event: Event, filter: EventFilter): boolean {
+  if (filter.venues?.length && !filter.venues.includes(event.source)) {
+    return false;
+  }
+  if (filter.types?.length && !filter.types.includes(event.type || 'other')) {
+    return false;
+  }
+  if (filter.tags?.length) {
+    const tags = event.tags.map(tag => tag.toLowerCase());
+    if (!filter.tags.some(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+  if (filter.from || filter.to) {
+    // A recurring event matches when any of its expanded dates falls in range
+    const days = event.occurrences?.length
+      ? event.occurrences.map(o => o.substring(0, 10))
+      : [eventDay(event)];
+    return days.some(day =>
+      (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * The event's local calendar day. Zoned start strings begin with it; legacy
+ * events only have `date`.
+ */
+function eventDay(event: Event): string {
+  return (event.start ?? event.date).substring(0, 10);
+}
@@ -0,0 +1,434 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Event } from '../types';
+import {
+  EventHistoryEntry,
+  EventHistoryFile,
+  EventFieldChange,
+  EventChangeSet,
+  EventRevision
+} from '../types/event-history';
+import { diffEventFields } from './event-diff';
+import { logger } from './logger';
+import { DEFAULT_TIMEZONE } from './date-parser';
+
+const HISTORY_FILE = 'event-history.json';
+const MAX_CHANGES_PER_EVENT = 50;
+const RETENTION_DAYS = 365;
+const MAX_RUNS = 52;
+
+// Fields that change on every run (or drift with the clock) without the event changing
+const IGNORED_FIELDS = ['scrapedAt', 'occurrences'];
+// A recurring series' date is its next occurrence, which moves forward on its own
+const IGNORED_SERIES_FIELDS = [...IGNORED_FIELDS, 'date', 'start', 'end'];
+
+const CANCELLED_PATTERN = /\bcancell?ed\b/i;
+
+// A listing that shrank below this share of the venue's upcoming events is
+// more likely a broken page than a wave of cancellations
+const MIN_LISTING_SHARE = 0.5;
+
+export class EventHistoryManager {
+  private outputDir: string;
+  private historyFile: EventHistoryFile | null = null;
+  private loading: Promise<EventHistoryFile> | null = null;
+
+  constructor(outputDir: string = 'output') {
+    this.outputDir = outputDir;
+  }
+
+  private get filePath(): string {
+    return path.join(this.outputDir, HISTORY_FILE);
+  }
+
+  async load(): Promise<EventHistoryFile> {
+    if (this.historyFile) {
+      return this.historyFile;
+    }
+
+    if (!this.loading) {
+      this.loading = this.readHistoryFile();
+    }
+    return this.loading;
+  }
+
+  private async readHistoryFile(): Promise<EventHistoryFile> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      this.historyFile = JSON.parse(content) as EventHistoryFile;
+    } catch {
+      this.historyFile = {
+        version: '1.0.0',
+        updatedAt: new Date().toISOString(),
+        runs: [],
+        events: {}
+      };
+    }
+
+    return this.historyFile;
+  }
+
+  async save(): Promise<void> {
+    if (!this.historyFile) {
+      return;
+    }
+
+    this.historyFile.updatedAt = new Date().toISOString();
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(
+      this.filePath,
+      JSON.stringify(this.historyFile, null, 2)
+    );
+
+    logger.debug(`Event history saved to ${this.filePath}`);
+  }
+
+  /**
+   * Merges one run's events into the history and returns what changed since
+   * the previous run.
+   *
+   * Only venues listed in `scrapedVenueIds` (i.e. scraped successfully this run)
+   * can lose events, and only when their listing looks complete: a venue that
+   * came back empty, or with under half of its upcoming events, most likely
+   * had its page change, so its missing events are left as they were. An
+   * upcoming event that vanished from a complete listing is treated as
+   * rescheduled when a new event with the same title appeared at the same
+   * venue, and as cancelled otherwise. Events whose day has passed are just
+   * retired.
+   */
+  async recordRun(
+    events: Event[],
+    scrapedVenueIds: string[],
+    runAt: Date = new Date()
+  ): Promise<EventChangeSet> {
+    const historyFile = await this.load();
+    const since = historyFile.runs[historyFile.runs.length - 1] ?? null;
+    const at = runAt.toISOString();
+    const seen = new Set<string>();
+
+    for (const event of events) {
+      seen.add(event.id);
+      const entry = historyFile.events[event.id];
+
+      if (!entry) {
+        historyFile.events[event.id] = {
+          id: event.id,
+          venueId: event.source,
+          firstSeenAt: at,
+          lastSeenAt: at,
+          status: this.isMarkedCancelled(event) ? 'cancelled' : 'active',
+          statusChangedAt: at,
+          sequence: 0,
+          event,
+          changes: []
+        };
+        continue;
+      }
+
+      const ignored = event.recurringPattern ? IGNORED_SERIES_FIELDS : IGNORED_FIELDS;
+      const changes = diffEventFields(entry.event, event, ignored)
+        .map(change => ({ at, ...change }));
+      const status = this.isMarkedCancelled(event) ? 'cancelled' : 'active';
+
+      if (changes.length > 0 || status !== entry.status) {
+        entry.sequence++;
+      }
+      if (status !== entry.status) {
+        entry.status = status;
+        entry.statusChangedAt = at;
+        delete entry.rescheduledTo;
+      }
+
+      entry.changes = [...entry.changes, ...changes].slice(-MAX_CHANGES_PER_EVENT);
+      entry.lastSeenAt = at;
+      entry.event = event;
+    }
+
+    const completeVenueIds = this.completeListings(historyFile, events, scrapedVenueIds, runAt);
+    this.resolveMissingEvents(historyFile, completeVenueIds, seen, runAt);
+    this.prune(historyFile, runAt);
+
+    historyFile.runs = [...historyFile.runs, at].slice(-MAX_RUNS);
+    return this.getChangesSince(since ? new Date(since) : null);
+  }
+
+  /**
+   * The scraped venues whose listing can be trusted to be complete, judged
+   * against the upcoming events the history already holds for them.
+   */
+  private completeListings(
+    historyFile: EventHistoryFile,
+    events: Event[],
+    scrapedVenueIds: string[],
+    runAt: Date
+  ): Set<string> {
+    const at = runAt.toISOString();
+    const complete = new Set<string>();
+
+    for (const venueId of scrapedVenueIds) {
+      const found = events.filter(e => e.source === venueId).length;
+      const expected = Object.values(historyFile.events).filter(e =>
+        e.venueId === venueId &&
+        e.firstSeenAt !== at &&
+        e.status === 'active' &&
+        this.isUpcoming(e.event, runAt)
+      ).length;
+
+      if (found === 0 && expected > 0) {
+        logger.warn(`${venueId} returned no events; keeping its ${expected} upcoming events as they were`);
+      } else if (found < expected * MIN_LISTING_SHARE) {
+        logger.warn(`${venueId} returned ${found} of ${expected} upcoming events; not treating the rest as cancelled`);
+      } else {
+        complete.add(venueId);
+      }
+    }
+
+    return complete;
+  }
+
+  private resolveMissingEvents(
+    historyFile: EventHistoryFile,
+    completeVenueIds: Set<string>,
+    seen: Set<string>,
+    runAt: Date
+  ): void {
+    const at = runAt.toISOString();
+    const entries = Object.values(historyFile.events);
+    const newThisRun = entries.filter(e => e.firstSeenAt === at);
+
+    for (const entry of entries) {
+      if (seen.has(entry.id) || entry.status !== 'active' || !completeVenueIds.has(entry.venueId)) {
+        continue;
+      }
+
+      const series = this.findSeries(entry, newThisRun);
+      if (series) {
+        this.carryOver(historyFile, entry, series);
+        continue;
+      }
+
+      if (!this.isUpcoming(entry.event, runAt)) {
+        entry.status = 'past';
+        entry.statusChangedAt = at;
+        continue;
+      }
+
+      const titleKey = this.titleKey(entry.event.title);
+      const replacement = newThisRun.find(e =>
+        e.venueId === entry.venueId &&
+        !e.rescheduledFrom &&
+        this.titleKey(e.event.title) === titleKey
+      );
+
+      entry.status = replacement ? 'rescheduled' : 'cancelled';
+      entry.statusChangedAt = at;
+      entry.sequence++;
+      if (replacement) {
+        entry.rescheduledTo = replacement.id;
+        replacement.rescheduledFrom = entry.id;
+      }
+    }
+  }
+
+  /**
+   * Finds the entry a recurring series continues under. Series used to be
+   * keyed on their next date, so histories written before that changed hold
+   * one entry per week.
+   */
+  private findSeries(entry: EventHistoryEntry, newThisRun: EventHistoryEntry[]): EventHistoryEntry | undefined {
+    const pattern = entry.event.recurringPattern;
+    if (!pattern) return undefined;
+
+    const titleKey = this.titleKey(entry.event.title);
+    return newThisRun.find(e =>
+      e.venueId === entry.venueId &&
+      e.event.recurringPattern === pattern &&
+      this.titleKey(e.event.title) === titleKey
+    );
+  }
+
+  /**
+   * Moves an old entry's history onto the entry its series continues under,
+   * so the series isn't reported as new.
+   */
+  private carryOver(historyFile: EventHistoryFile, from: EventHistoryEntry, to: EventHistoryEntry): void {
+    const changes = diffEventFields(from.event, to.event, [...IGNORED_SERIES_FIELDS, 'id'])
+      .map(change => ({ at: to.firstSeenAt, ...change }));
+
+    to.firstSeenAt = from.firstSeenAt;
+    to.sequence = from.sequence + (changes.length > 0 ? 1 : 0);
+    to.changes = [...from.changes, ...changes].slice(-MAX_CHANGES_PER_EVENT);
+    if (to.status === from.status) {
+      to.statusChangedAt = from.statusChangedAt;
+    }
+    delete historyFile.events[from.id];
+  }
+
+  private prune(historyFile: EventHistoryFile, runAt: Date): void {
+    const cutoff = runAt.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+    for (const [id, entry] of Object.entries(historyFile.events)) {
+      if (new Date(entry.lastSeenAt).getTime() < cutoff) {
+        delete historyFile.events[id];
+      }
+    }
+  }
+
+  /**
+   * Collects every change recorded after `since` (exclusive). With no `since`,
+   * everything in the history counts as new.
+   */
+  async getChangesSince(since: Date | null): Promise<EventChangeSet> {
+    const historyFile = await this.load();
+    const after = (timestamp: string | undefined): boolean =>
+      !!timestamp && (!since || new Date(timestamp).getTime() > since.getTime());
+
+    const changeSet: EventChangeSet = {
+      since: since ? since.toISOString() : null,
+      generatedAt: new Date().toISOString(),
+      new: [],
+      changed: [],
+      cancelled: [],
+      rescheduled: []
+    };
+
+    for (const entry of Object.values(historyFile.events)) {
+      const statusChanged = after(entry.statusChangedAt);
+
+      if (entry.status === 'rescheduled' && statusChanged && entry.rescheduledTo) {
+        const replacement = historyFile.events[entry.rescheduledTo];
+        if (replacement) {
+          changeSet.rescheduled.push({ from: entry.event, to: replacement.event });
+          continue;
+        }
+      }
+      if (entry.status === 'cancelled' && statusChanged) {
+        changeSet.cancelled.push(entry.event);
+        continue;
+      }
+      if (after(entry.firstSeenAt)) {
+        // Rescheduled events are reported once, under their old id
+        if (!entry.rescheduledFrom) {
+          changeSet.new.push(entry.event);
+        }
+        continue;
+      }
+
+      const changes = entry.changes.filter(c => after(c.at));
+      if (changes.length > 0 && entry.status === 'active') {
+        changeSet.changed.push({ event: entry.event, changes: this.collapseChanges(changes) });
+      }
+    }
+
+    const byDate = (a: Event, b: Event) => (a.start ?? a.date).localeCompare(b.start ?? b.date);
+    changeSet.new.sort(byDate);
+    changeSet.cancelled.sort(byDate);
+    changeSet.changed.sort((a, b) => byDate(a.event, b.event));
+    changeSet.rescheduled.sort((a, b) => byDate(a.to, b.to));
+
+    return changeSet;
+  }
+
+  async getEntry(eventId: string): Promise<EventHistoryEntry | null> {
+    const historyFile = await this.load();
+    return historyFile.events[eventId] ?? null;
+  }
+
+  /**
+   * Sequence number and last modification time of every tracked event, keyed by id.
+   */
+  async getRevisions(): Promise<Map<string, EventRevision>> {
+    const historyFile = await this.load();
+    const revisions = new Map<string, EventRevision>();
+
+    for (const entry of Object.values(historyFile.events)) {
+      const timestamps = [
+        entry.firstSeenAt,
+        entry.statusChangedAt,
+        entry.changes[entry.changes.length - 1]?.at
+      ].filter((at): at is string => !!at);
+
+      revisions.set(entry.id, {
+        sequence: entry.sequence,
+        lastModified: timestamps.sort()[timestamps.length - 1]
+      });
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Timestamps of recorded runs, most recent first.
+   */
+  async getRuns(): Promise<Date[]> {
+    const historyFile = await this.load();
+    return historyFile.runs.map(at => new Date(at)).reverse();
+  }
+
+  formatChangeSet(changeSet: EventChangeSet): string {
+    const since = changeSet.since ? new Date(changeSet.since).toLocaleString() : 'the first run';
+    const lines: string[] = ['', `--- Changes since ${since} ---`];
+    const describe = (event: Event) => `${event.title} @ ${event.venue.name} (${(event.start ?? event.date).substring(0, 10)})`;
+
+    lines.push(`\nNew (${changeSet.new.length}):`);
+    for (const event of changeSet.new) {
+      lines.push(`  + ${describe(event)}`);
+    }
+
+    lines.push(`\nCancelled (${changeSet.cancelled.length}):`);
+    for (const event of changeSet.cancelled) {
+      lines.push(`  x ${describe(event)}`);
+    }
+
+    lines.push(`\nRescheduled (${changeSet.rescheduled.length}):`);
+    for (const { from, to } of changeSet.rescheduled) {
+      lines.push(`  > ${describe(from)} -> ${(to.start ?? to.date).substring(0, 10)}`);
+    }
+
+    lines.push(`\nChanged (${changeSet.changed.length}):`);
+    for (const { event, changes } of changeSet.changed) {
+      lines.push(`  ~ ${describe(event)}`);
+      for (const change of changes) {
+        lines.push(`      ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Merges successive edits to the same field into one before -> after change.
+   */
+  private collapseChanges(changes: EventFieldChange[]): EventFieldChange[] {
+    const byField = new Map<string, EventFieldChange>();
+
+    for (const change of changes) {
+      const existing = byField.get(change.field);
+      byField.set(change.field, existing ? { ...change, before: existing.before } : change);
+    }
+
+    return [...byField.values()].filter(c => JSON.stringify(c.before) !== JSON.stringify(c.after));
+  }
+
+  private isMarkedCancelled(event: Event): boolean {
+    return CANCELLED_PATTERN.test(event.title) || event.tags.includes('cancelled');
+  }
+
+  private isUpcoming(event: Event, asOf: Date): boolean {
+    const zoned = event.end ?? event.start;
+    if (!zoned) {
+      return new Date(event.date).getTime() >= asOf.getTime() - 24 * 60 * 60 * 1000;
+    }
+
+    const timezone = event.venue.timezone || DEFAULT_TIMEZONE;
+    return zoned.substring(0, 10) >= formatInTimeZone(asOf, timezone, 'yyyy-MM-dd');
+  }
+
+  private titleKey(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
+
+export const eventHistoryManager = new EventHistoryManager();
@@ -1,7 +1,10 @@
 import crypto from 'crypto';
 import { Event, EventType, VenueInfo } from '../types';
-import { dateParser } from './date-parser';
+import { dateParser, DEFAULT_TIMEZONE, CalendarDay, ClockTime } from './date-parser';
 import { logger } from './logger';
+import { recurrenceEngine } from './recurrence';
+
+const DEFAULT_RECURRENCE_HORIZON_DAYS = 90;
 
 const EVENT_TYPE_KEYWORDS: Record<EventType, string[]> = {
   trivia: ['trivia', 'quiz', 'game night', 'pub quiz'],
@@ -27,8 +30,21 @@ export interface RawEventData {
   url?: string;
   imageUrl?: string;
   price?: string;
+  location?: string; // where the event is held, when the listing names a place
   type?: EventType;
   tags?: string[];
+  recurringPattern?: string; // when the source states the recurrence, e.g. "weekly:tuesday"; otherwise detected from date
+}
+
+interface EventTiming {
+  day: CalendarDay;
+  startClock: ClockTime | null;
+  fields: Pick<Event, 'startTime' | 'endTime' | 'start' | 'end' | 'allDay'>;
+}
+
+export interface NormalizeOptions {
+  /** How far ahead recurring events are expanded into occurrences. */
+  recurrenceHorizonDays?: number;
 }
 
 export class EventNormalizer {
@@ -93,7 +109,8 @@ export class EventNormalizer {
   normalizeEvent(
     rawData: RawEventData,
     venue: VenueInfo,
-    source: string
+    source: string,
+    options: NormalizeOptions = {}
   ): Event | null {
     try {
       if (!rawData.title) {
@@ -108,26 +125,44 @@ export class EventNormalizer {
       }
 
       const dateStr = dateParser.toISOString(date);
-      const id = this.generateEventId(rawData.title, dateStr, venue.name);
+      const recurringPattern = rawData.recurringPattern
+        || (rawData.date ? dateParser.detectRecurringPattern(rawData.date) : null);
+      // A series' date is its next occurrence, so it is keyed on the pattern to keep its id from week to week
+      const id = this.generateEventId(rawData.title, recurringPattern ? `recurring:${recurringPattern}` : dateStr, venue.name);
       const eventType = rawData.type || this.detectEventType(rawData.title, rawData.description);
       const tags = this.extractTags(rawData.title, rawData.description, rawData.tags);
-      const recurringPattern = rawData.date ? dateParser.detectRecurringPattern(rawData.date) : null;
+      const timezone = venue.timezone || DEFAULT_TIMEZONE;
+      const timing = this.resolveTiming(rawData, date, timezone);
+      const recurrence = recurringPattern
+        ? this.expandRecurrence(
+          recurringPattern,
+          timing,
+          timezone,
+          options.recurrenceHorizonDays ?? DEFAULT_RECURRENCE_HORIZON_DAYS
+        )
+        : null;
 
       const event: Event = {
         id,
         title: this.normalizeTitle(rawData.title),
         description: rawData.description?.trim(),
         date: dateStr,
-        startTime: rawData.startTime,
-        endTime: rawData.endTime,
+        startTime: timing.fields.startTime,
+        endTime: timing.fields.endTime,
+        start: timing.fields.start,
+        end: timing.fields.end,
+        allDay: timing.fields.allDay,
         venue,
         type: eventType,
         tags,
         url: rawData.url,
         imageUrl: rawData.imageUrl,
         price: rawData.price,
+        location: rawData.location,
         isRecurring: !!recurringPattern,
         recurringPattern: recurringPattern || undefined,
+        rrule: recurrence?.rrule,
+        occurrences: recurrence?.occurrences,
         scrapedAt: new Date().toISOString(),
         source,
         confidence: this.calculateConfidence(rawData)
@@ -140,6 +175,67 @@ export class EventNormalizer {
     }
   }
 
+  /**
+   * Works out zoned start/end datetimes from the parsed date and the free-form
+   * time strings. A range in startTime ("11:00 AM - 04:00 PM") is split, and an
+   * end at or before the start is taken to run past midnight.
+   */
+  private resolveTiming(rawData: RawEventData, date: Date, timezone: string): EventTiming {
+    const wallClock = dateParser.getWallClock(date, rawData.date || '', timezone);
+    const range = rawData.startTime ? dateParser.splitTimeRange(rawData.startTime) : null;
+
+    const startTime = range?.start || undefined;
+    const endTime = rawData.endTime || range?.end;
+
+    const startClock = (startTime && /\d/.test(startTime) ? dateParser.parseTime(startTime) : null)
+      ?? wallClock.time;
+    const endClock = endTime && /\d/.test(endTime) ? dateParser.parseTime(endTime) : null;
+
+    const start = dateParser.toZonedInstant(wallClock.day, startClock, timezone);
+    let end: Date | undefined;
+    if (startClock && endClock) {
+      end = dateParser.toZonedInstant(wallClock.day, endClock, timezone);
+      if (end <= start) {
+        end = dateParser.toZonedInstant(dateParser.addCalendarDays(wallClock.day, 1), endClock, timezone);
+      }
+    }
+
+    return {
+      day: wallClock.day,
+      startClock,
+      fields: {
+        startTime,
+        endTime,
+        start: dateParser.toZonedISOString(start, timezone),
+        end: end ? dateParser.toZonedISOString(end, timezone) : undefined,
+        allDay: !startClock
+      }
+    };
+  }
+
+  /**
+   * Turns a detected pattern into an RRULE and the concrete start datetimes
+   * from the event's first occurrence up to the horizon.
+   */
+  private expandRecurrence(
+    pattern: string,
+    timing: EventTiming,
+    timezone: string,
+    horizonDays: number
+  ): { rrule: string; occurrences: string[] } | null {
+    const rule = recurrenceEngine.parsePattern(pattern);
+    if (!rule) return null;
+
+    const occurrences = recurrenceEngine
+      .expand(rule, timing.day, horizonDays)
+      .map(day => dateParser.toZonedISOString(
+        dateParser.toZonedInstant(day, timing.startClock, timezone),
+        timezone
+      ));
+
+    return { rrule: recurrenceEngine.toRRule(rule), occurrences };
+  }
+
   private normalizeTitle(title: string): string {
     return title
       .trim()
@@ -0,0 +1,126 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { Field, FieldRule, FieldTransform } from '../types';
+import { dateParser } from './date-parser';
+
+export const LINK_ATTRS = ['href'];
+export const IMAGE_ATTRS = ['src', 'data-src', 'data-lazy-src'];
+
+export interface FieldExtractOptions {
+  // Attributes read, first present wins, when a rule doesn't name one (e.g. ["href"] for links)
+  defaultAttrs?: string[];
+  // Resolve the value as a URL against this base
+  baseUrl?: string;
+  // Plain selectors read as text take the text of every match run together
+  // (like cheerio's .text() on the selection) instead of the first match's
+  allMatches?: boolean;
+}
+
+/**
+ * Evaluates the declarative field rules from venue selectors against an
+ * event container.
+ */
+export class FieldExtractor {
+  extract(
+    $: cheerio.CheerioAPI,
+    $scope: cheerio.Cheerio<AnyNode>,
+    field: Field,
+    options: FieldExtractOptions = {}
+  ): string | undefined {
+    const rules = Array.isArray(field) ? field : [field];
+
+    for (const rule of rules) {
+      const value = typeof rule === 'string'
+        ? this.applyRule($, $scope, { selector: rule, transforms: [] }, options, !!options.allMatches)
+        : this.applyRule($, $scope, rule, options, false);
+      if (value) {
+        return options.baseUrl ? this.resolveUrl(value, options.baseUrl) : value;
+      }
+    }
+
+    return undefined;
+  }
+
+  private applyRule(
+    $: cheerio.CheerioAPI,
+    $scope: cheerio.Cheerio<AnyNode>,
+    rule: FieldRule,
+    options: FieldExtractOptions,
+    allMatches: boolean
+  ): string | undefined {
+    const $matches = rule.selector ? $scope.find(rule.selector) : $scope;
+    const attrs = rule.attr ? [rule.attr] : options.defaultAttrs;
+
+    let value: string | undefined;
+    if (allMatches && !attrs) {
+      value = this.read($matches, undefined);
+    } else {
+      const elements = rule.join !== undefined ? $matches.toArray() : $matches.first().toArray();
+      const values = elements
+        .map(element => this.read($(element), attrs))
+        .filter((value): value is string => !!value);
+      value = rule.join !== undefined ? values.join(rule.join) : values[0];
+    }
+
+    if (value && rule.regex) {
+      const match = value.match(new RegExp(rule.regex, 'i'));
+      value = match ? (match.length > 1 ? match[1] : match[0]) : undefined;
+    }
+
+    for (const transform of rule.transforms) {
+      if (!value) break;
+      value = this.transform(value, transform);
+    }
+
+    value = value?.trim();
+    return value || rule.default;
+  }
+
+  private read($element: cheerio.Cheerio<AnyNode>, attrs: string[] | undefined): string | undefined {
+    if (attrs) {
+      for (const attr of attrs) {
+        const value = $element.attr(attr)?.trim();
+        if (value) return value;
+      }
+      return undefined;
+    }
+    return $element.text().trim().replace(/\s+/g, ' ') || undefined;
+  }
+
+  private transform(value: string, transform: FieldTransform): string | undefined {
+    if (transform === 'trim') return value.trim();
+    if (transform === 'lowercase') return value.toLowerCase();
+    if (transform === 'uppercase') return value.toUpperCase();
+
+    if ('stripPrefix' in transform) {
+      const trimmed = value.trim();
+      return trimmed.toLowerCase().startsWith(transform.stripPrefix.toLowerCase())
+        ? trimmed.slice(transform.stripPrefix.length)
+        : trimmed;
+    }
+    if ('stripSuffix' in transform) {
+      const trimmed = value.trim();
+      return trimmed.toLowerCase().endsWith(transform.stripSuffix.toLowerCase())
+        ? trimmed.slice(0, trimmed.length - transform.stripSuffix.length)
+        : trimmed;
+    }
+    if ('replace' in transform) {
+      return value.replace(new RegExp(transform.replace, 'gi'), transform.with);
+    }
+
+    const { start, end } = dateParser.splitTimeRange(value);
+    return transform.range === 'start' ? start : end;
+  }
+
+  private resolveUrl(value: string, baseUrl: string): string | undefined {
+    try {
+      const url = new URL(value, baseUrl);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const fieldExtractor = new FieldExtractor();
+export default fieldExtractor;
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getScrapeContext } from './scrape-context';
+import { logger } from './logger';
+
+export type FixtureMode = 'record' | 'replay';
+
+/** Which client produced the capture; part of the key so the same URL can be fetched both ways. */
+export type FixtureKind = 'html' | 'json' | 'browser' | 'responses';
+
+export interface FixtureStoreOptions {
+  mode: FixtureMode;
+  dir?: string;
+}
+
+export interface Fixture<T = unknown> {
+  url: string;
+  kind: FixtureKind;
+  venueId: string;
+  recordedAt: string;
+  body: T;
+}
+
+export const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), 'tests', 'fixtures');
+
+// Fixtures recorded outside a scrape (e.g. ad-hoc client use) are grouped here.
+const UNSCOPED_VENUE = '_shared';
+
+/**
+ * Captures raw responses during a live scrape and serves them back offline.
+ * Fixtures are stored as `<dir>/<venueId>/<kind>-<hash of url>.json`.
+ */
+export class FixtureStore {
+  readonly mode: FixtureMode;
+  readonly dir: string;
+
+  constructor(options: FixtureStoreOptions) {
+    this.mode = options.mode;
+    this.dir = options.dir || DEFAULT_FIXTURE_DIR;
+  }
+
+  get isReplay(): boolean {
+    return this.mode === 'replay';
+  }
+
+  fixturePath(kind: FixtureKind, url: string, venueId: string = this.currentVenueId()): string {
+    const hash = crypto.createHash('sha1').update(url).digest('hex').substring(0, 12);
+    return path.join(this.dir, venueId, `${kind}-${hash}.json`);
+  }
+
+  record<T>(kind: FixtureKind, url: string, body: T): void {
+    if (this.mode !== 'record') return;
+
+    const venueId = this.currentVenueId();
+    const filePath = this.fixturePath(kind, url, venueId);
+    const fixture: Fixture<T> = {
+      url,
+      kind,
+      venueId,
+      recordedAt: new Date().toISOString(),
+      body
+    };
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2), 'utf-8');
+    logger.debug(`Recorded fixture: ${filePath}`);
+  }
+
+  replay<T>(kind: FixtureKind, url: string): T {
+    const venueId = this.currentVenueId();
+    const filePath = this.fixturePath(kind, url, venueId);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`No recorded ${kind} fixture for ${url} (venue: ${venueId})`);
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Fixture<T>;
+    logger.debug(`Replaying fixture: ${filePath}`);
+    return fixture.body;
+  }
+
+  /**
+   * Returns the venue ids that have at least one recorded fixture.
+   */
+  listVenues(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs.readdirSync(this.dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && entry.name !== UNSCOPED_VENUE)
+      .map(entry => entry.name);
+  }
+
+  /**
+   * Returns when the earliest fixture for a venue was captured, which is the
+   * "now" a replay of that venue should run at.
+   */
+  getRecordedAt(venueId: string): Date | null {
+    const venueDir = path.join(this.dir, venueId);
+    if (!fs.existsSync(venueDir)) return null;
+
+    const times = fs.readdirSync(venueDir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => {
+        const fixture = JSON.parse(fs.readFileSync(path.join(venueDir, f), 'utf-8')) as Fixture;
+        return new Date(fixture.recordedAt).getTime();
+      })
+      .filter(t => !isNaN(t));
+
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }
+
+  private currentVenueId(): string {
+    return getScrapeContext()?.venueId ?? UNSCOPED_VENUE;
+  }
+}
+
+// Shared instance consulted by HttpClient and BrowserClient; null means live fetching.
+let fixtureStoreInstance: FixtureStore | null = null;
+
+export function setFixtureStore(store: FixtureStore | null): void {
+  fixtureStoreInstance = store;
+}
+
+export function getFixtureStore(): FixtureStore | null {
+  return fixtureStoreInstance;
+}
+
+export default FixtureStore;
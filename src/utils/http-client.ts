@@ -1,6 +1,8 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import axiosRetry from 'axios-retry';
 import { logger } from './logger';
+import { getFixtureStore } from './fixture-store';
+import { getScrapeContext } from './scrape-context';
 
 export interface HttpClientOptions {
   timeout?: number;
@@ -11,13 +13,19 @@ export interface HttpClientOptions {
   enforceHttps?: boolean;
 }
 
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
 const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
 export class HttpClient {
   private client: AxiosInstance;
   private delayBetweenRequests: number;
-  private lastRequestTime: number = 0;
+  // Next free request slot per hostname, so politeness delays don't block other hosts
+  private nextRequestTime: Map<string, number> = new Map();
   private enforceHttps: boolean;
+  // Pages fetched through getCached, keyed by URL; in-flight requests are shared
+  private cache: Map<string, { fetchedAt: number; body: Promise<string> }> = new Map();
 
   constructor(options: HttpClientOptions = {}) {
     const {
@@ -58,15 +66,25 @@ export class HttpClient {
     });
   }
 
-  private async waitForRateLimit(): Promise<void> {
+  private async waitForRateLimit(url: string): Promise<void> {
+    const host = this.hostOf(url);
     const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.delayBetweenRequests) {
-      await new Promise(resolve =>
-        setTimeout(resolve, this.delayBetweenRequests - timeSinceLastRequest)
-      );
+    const slot = Math.max(now, this.nextRequestTime.get(host) ?? 0);
+
+    // Reserve the slot before waiting so concurrent callers queue up behind it
+    this.nextRequestTime.set(host, slot + this.delayBetweenRequests);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
     }
-    this.lastRequestTime = Date.now();
   }
 
   /**
@@ -82,31 +100,100 @@ export class HttpClient {
   }
 
   async get(url: string, config?: AxiosRequestConfig): Promise<string> {
-    await this.waitForRateLimit();
+    const fixtures = getFixtureStore();
+    if (fixtures?.isReplay) {
+      return fixtures.replay<string>('html', url);
+    }
+
+    await this.waitForRateLimit(url);
 
     const secureUrl = this.secureUrl(url);
     logger.debug(`Fetching: ${secureUrl}`);
-    const response = await this.client.get<string>(secureUrl, config);
+    const response = await this.recordForDebug('http', secureUrl, this.client.get<string>(secureUrl, config));
     logger.debug(`Received ${response.data.length} bytes from ${secureUrl}`);
 
+    fixtures?.record('html', url, response.data);
     return response.data;
   }
 
+  /**
+   * Like get(), but repeated requests for the same URL within the TTL reuse
+   * the first response. Meant for pages many events link to, such as event
+   * detail pages.
+   */
+  async getCached(url: string, ttlMs: number = CACHE_TTL_MS): Promise<string> {
+    const cached = this.cache.get(url);
+    if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+      return cached.body;
+    }
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    const body = this.get(url);
+    this.cache.set(url, { fetchedAt: Date.now(), body });
+    // Failures aren't cached
+    body.catch(() => {
+      if (this.cache.get(url)?.body === body) {
+        this.cache.delete(url);
+      }
+    });
+    return body;
+  }
+
   async getJson<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    await this.waitForRateLimit();
+    const fixtures = getFixtureStore();
+    if (fixtures?.isReplay) {
+      return fixtures.replay<T>('json', url);
+    }
+
+    await this.waitForRateLimit(url);
 
     const secureUrl = this.secureUrl(url);
     logger.debug(`Fetching JSON: ${secureUrl}`);
-    const response = await this.client.get<T>(secureUrl, {
+    const response = await this.recordForDebug('json', secureUrl, this.client.get<T>(secureUrl, {
       ...config,
       headers: {
         ...config?.headers,
         'Accept': 'application/json'
       }
-    });
+    }));
 
+    fixtures?.record('json', url, response.data);
     return response.data;
   }
+
+  /**
+   * Notes the response (or the error response) on the scrape's debug
+   * recorder, when the scrape has one.
+   */
+  private async recordForDebug<T>(
+    kind: 'http' | 'json',
+    url: string,
+    request: Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    const debug = getScrapeContext()?.debug;
+    if (!debug) return request;
+
+    const describe = (response: AxiosResponse | undefined) => response && {
+      finalUrl: response.request?.res?.responseUrl as string | undefined,
+      status: response.status,
+      headers: Object.fromEntries(Object.entries(response.headers ?? {}).map(([k, v]) => [k, String(v)])),
+      body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data, null, 2)
+    };
+
+    try {
+      const response = await request;
+      debug.record({ kind, url, ...describe(response) });
+      return response;
+    } catch (error) {
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      debug.record({ kind, url, ...describe(response), error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
 }
 
 export const httpClient = new HttpClient();
@@ -2,5 +2,14 @@ export * from './logger';
 export * from './http-client';
 export * from './browser-client';
 export * from './date-parser';
+export * from './recurrence';
 export * from './event-normalizer';
 export * from './deduplicator';
+export * from './scrape-context';
+export * from './fixture-store';
+export * from './concurrency';
+export * from './event-filter';
+export * from './structured-data';
+export * from './field-extractor';
+export * from './json-events';
+export * from './debug-bundle';
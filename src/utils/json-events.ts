@@ -0,0 +1,163 @@
+import * as cheerio from 'cheerio';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RawEventData } from './event-normalizer';
+import { DEFAULT_TIMEZONE } from './date-parser';
+
+const OFFSET_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATETIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Field names calendar APIs commonly use, in order of preference
+const TITLE_KEYS = ['title', 'name', 'summary', 'eventName', 'event_name', 'post_title'];
+const START_KEYS = ['start', 'startDate', 'start_date', 'startDateTime', 'start_datetime', 'startsAt', 'starts_at', 'start_at', 'startTime', 'start_time', 'dateTime', 'datetime', 'date'];
+const END_KEYS = ['end', 'endDate', 'end_date', 'endDateTime', 'end_datetime', 'endsAt', 'ends_at', 'end_at', 'endTime', 'end_time'];
+const DESCRIPTION_KEYS = ['description', 'excerpt', 'content', 'body', 'details', 'text'];
+const URL_KEYS = ['url', 'link', 'htmlLink', 'permalink', 'eventUrl', 'event_url', 'ticketUrl', 'ticket_url'];
+const IMAGE_KEYS = ['image', 'imageUrl', 'image_url', 'thumbnail', 'featured_image', 'photo', 'picture'];
+const PRICE_KEYS = ['price', 'cost', 'ticketPrice', 'ticket_price', 'priceRange'];
+const LOCATION_KEYS = ['location', 'venue', 'venueName', 'venue_name', 'place'];
+
+type JsonNode = Record<string, unknown>;
+
+export interface JsonEventOptions {
+  baseUrl?: string;
+  timezone?: string; // renders times of offset-qualified and epoch dates
+}
+
+interface Moment {
+  date: string;
+  time?: string;
+  instant?: number; // epoch ms, when the value pins an exact instant
+}
+
+/**
+ * Finds events in arbitrary calendar API payloads: arrays of objects that
+ * carry a title and a start, wherever they sit in the response. Field names
+ * are matched loosely, and nested values such as Google Calendar's
+ * `start: { dateTime }` or WordPress's `title: { rendered }` are unwrapped.
+ */
+export class JsonEventExtractor {
+  extract(data: unknown, options: JsonEventOptions = {}): RawEventData[] {
+    return this.findItems(data)
+      .map(item => this.mapItem(item, options))
+      .filter((event): event is RawEventData => event !== null);
+  }
+
+  private findItems(data: unknown, depth: number = 0): JsonNode[] {
+    if (depth > 6 || !data || typeof data !== 'object') return [];
+
+    const values = Array.isArray(data) ? data : Object.values(data as JsonNode);
+    if (Array.isArray(data)) {
+      const items = values.filter((v): v is JsonNode => !!v && typeof v === 'object' && !Array.isArray(v));
+      const events = items.filter(item => this.pick(item, TITLE_KEYS) && this.pick(item, START_KEYS));
+      // Most of the list should look like events, not just the odd object in a config blob
+      if (events.length > 0 && events.length * 2 >= items.length) {
+        return events;
+      }
+    }
+
+    return values.flatMap(value => this.findItems(value, depth + 1));
+  }
+
+  private mapItem(item: JsonNode, options: JsonEventOptions): RawEventData | null {
+    const title = this.text(this.pick(item, TITLE_KEYS));
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const start = this.moment(this.pick(item, START_KEYS), timezone);
+    if (!title || !start) return null;
+
+    const end = this.moment(this.pick(item, END_KEYS), timezone);
+    // Multi-day events keep only their start time
+    const span = start.instant !== undefined && end?.instant !== undefined ? end.instant - start.instant : 0;
+    const sameDay = end && (span > 0 ? span < DAY_MS : end.date.slice(0, 10) === start.date.slice(0, 10));
+
+    return {
+      title,
+      date: start.date,
+      startTime: start.time,
+      endTime: sameDay ? end.time : undefined,
+      description: this.text(this.pick(item, DESCRIPTION_KEYS)),
+      url: this.resolveUrl(this.pick(item, URL_KEYS), options.baseUrl),
+      imageUrl: this.resolveUrl(this.pick(item, IMAGE_KEYS), options.baseUrl),
+      price: this.pick(item, PRICE_KEYS),
+      location: this.text(this.pick(item, LOCATION_KEYS))
+    };
+  }
+
+  /**
+   * Dates arrive as epoch seconds or milliseconds, ISO strings with or without
+   * an offset, or free text, which is left for the normalizer to parse.
+   */
+  private moment(value: string | undefined, timezone: string): Moment | null {
+    if (!value) return null;
+
+    if (/^\d{10,13}$/.test(value)) {
+      const instant = value.length === 13 ? Number(value) : Number(value) * 1000;
+      return this.zoned(instant, timezone);
+    }
+
+    if (OFFSET_PATTERN.test(value) && /T\d{2}:\d{2}/.test(value)) {
+      const instant = new Date(value).getTime();
+      return isNaN(instant) ? null : this.zoned(instant, timezone);
+    }
+
+    const local = value.match(LOCAL_DATETIME_PATTERN);
+    if (local) {
+      const hours = Number(local[2]);
+      const suffix = hours >= 12 ? 'PM' : 'AM';
+      return { date: value, time: `${hours % 12 || 12}:${local[3]} ${suffix}` };
+    }
+
+    return { date: value };
+  }
+
+  private zoned(instant: number, timezone: string): Moment {
+    return {
+      date: formatInTimeZone(instant, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+      time: formatInTimeZone(instant, timezone, 'h:mm a'),
+      instant
+    };
+  }
+
+  /**
+   * Reads the first present field as a string, unwrapping the nested shapes
+   * APIs wrap values in.
+   */
+  private pick(item: JsonNode, keys: string[]): string | undefined {
+    for (const key of keys) {
+      const value = this.unwrap(item[key]);
+      if (typeof value === 'number' && isFinite(value)) return String(value);
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+    return undefined;
+  }
+
+  private unwrap(value: unknown): unknown {
+    if (Array.isArray(value)) return this.unwrap(value[0]);
+    if (!value || typeof value !== 'object') return value;
+
+    const nested = value as JsonNode;
+    for (const key of ['dateTime', 'date', 'rendered', 'url', 'src', 'name', 'title', 'formatted', 'value']) {
+      if (nested[key] !== undefined && nested[key] !== null) return this.unwrap(nested[key]);
+    }
+    return undefined;
+  }
+
+  private text(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const plain = cheerio.load(value, null, false).text().replace(/\s+/g, ' ').trim();
+    return plain || undefined;
+  }
+
+  private resolveUrl(value: string | undefined, baseUrl?: string): string | undefined {
+    if (!value) return undefined;
+    try {
+      const url = new URL(value, baseUrl);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const jsonEventExtractor = new JsonEventExtractor();
+export default jsonEventExtractor;
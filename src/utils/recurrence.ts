@@ -0,0 +1,187 @@
+import type { CalendarDay } from './date-parser';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Parsed form of the pattern strings produced by DateParser.detectRecurringPattern:
+ *
+ *   daily | weekly | monthly            every day / week / month
+ *   weekly:monday                       every Monday
+ *   weekly/2:tuesday                    every other Tuesday
+ *   monthly:1,3:thursday                1st and 3rd Thursday of the month
+ *   monthly:-1:friday                   last Friday of the month
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[]; // 0 = Sunday
+  ordinals: number[]; // week-of-month positions, -1 = last
+}
+
+export const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const ORDINAL_WORDS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: '5th', [-1]: 'last' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_OCCURRENCES = 200;
+
+export class RecurrenceEngine {
+  parsePattern(pattern: string): RecurrenceRule | null {
+    const [head, ...rest] = pattern.toLowerCase().trim().split(':');
+    const headMatch = head.match(/^(daily|weekly|monthly)(?:\/(\d+))?$/);
+    if (!headMatch || rest.length > 2) return null;
+
+    // "weekly:monday" carries only days; "monthly:1,3:thursday" carries positions then days
+    const ordinalPart = rest.length === 2 ? rest[0] : '';
+    const dayPart = rest.length === 2 ? rest[1] : rest[0] ?? '';
+
+    const weekdays = dayPart.split(',')
+      .filter(Boolean)
+      .map(d => WEEKDAY_NAMES.indexOf(d.trim()));
+    const ordinals = ordinalPart.split(',')
+      .filter(Boolean)
+      .map(o => parseInt(o, 10));
+
+    if (weekdays.some(d => d < 0) || ordinals.some(o => isNaN(o) || o === 0 || o < -1 || o > 5)) {
+      return null;
+    }
+
+    return {
+      frequency: headMatch[1] as RecurrenceFrequency,
+      interval: headMatch[2] ? Math.max(1, parseInt(headMatch[2], 10)) : 1,
+      weekdays,
+      ordinals
+    };
+  }
+
+  toPattern(rule: RecurrenceRule): string {
+    let pattern = rule.frequency;
+    if (rule.interval > 1) pattern += `/${rule.interval}`;
+    if (rule.ordinals.length > 0) pattern += `:${rule.ordinals.join(',')}`;
+    if (rule.weekdays.length > 0) pattern += `:${rule.weekdays.map(d => WEEKDAY_NAMES[d]).join(',')}`;
+    return pattern;
+  }
+
+  /**
+   * Returns the RFC 5545 RRULE value (without the "RRULE:" prefix).
+   */
+  toRRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+    if (rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+
+    if (rule.weekdays.length > 0) {
+      const days = rule.frequency === 'monthly' && rule.ordinals.length > 0
+        ? rule.ordinals.flatMap(o => rule.weekdays.map(d => `${o}${RRULE_DAYS[d]}`))
+        : rule.weekdays.map(d => RRULE_DAYS[d]);
+      parts.push(`BYDAY=${days.join(',')}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * Human-readable summary, e.g. "every other Tuesday" or "last Friday of the month".
+   */
+  describe(rule: RecurrenceRule): string {
+    const days = rule.weekdays.map(d => WEEKDAY_NAMES[d].charAt(0).toUpperCase() + WEEKDAY_NAMES[d].slice(1));
+    const dayList = days.join(' and ');
+    const every = rule.interval === 2 ? 'every other' : rule.interval > 2 ? `every ${rule.interval}` : 'every';
+
+    if (rule.frequency === 'monthly' && rule.ordinals.length > 0 && days.length > 0) {
+      const positions = rule.ordinals.map(o => ORDINAL_WORDS[o]).join(' and ');
+      return `${positions} ${dayList} of the month`;
+    }
+    if (rule.frequency === 'weekly' && days.length > 0) {
+      return `${every} ${dayList}`;
+    }
+
+    const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+    return rule.interval > 2 ? `${every} ${unit}s` : `${every} ${unit}`;
+  }
+
+  /**
+   * Lists the days the rule occurs on, starting at `start` (the first known
+   * occurrence) and running for `horizonDays`.
+   */
+  expand(rule: RecurrenceRule, start: CalendarDay, horizonDays: number): CalendarDay[] {
+    const occurrences: CalendarDay[] = [];
+    const startIndex = this.dayIndex(start);
+
+    for (let offset = 0; offset <= horizonDays && occurrences.length < MAX_OCCURRENCES; offset++) {
+      const index = startIndex + offset;
+      if (this.matches(rule, index, startIndex)) {
+        occurrences.push(this.fromDayIndex(index));
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * First day on or after `from` that the rule occurs on, looking up to a year ahead.
+   * `start` is the series' first occurrence when known; it sets the phase of
+   * interval rules and the day of month of plain monthly rules.
+   */
+  nextOccurrence(rule: RecurrenceRule, from: CalendarDay, start: CalendarDay = from): CalendarDay | null {
+    const startIndex = this.dayIndex(start);
+    const fromIndex = Math.max(this.dayIndex(from), startIndex);
+
+    for (let index = fromIndex; index <= fromIndex + 366; index++) {
+      if (this.matches(rule, index, startIndex)) {
+        return this.fromDayIndex(index);
+      }
+    }
+    return null;
+  }
+
+  private matches(rule: RecurrenceRule, index: number, startIndex: number): boolean {
+    const date = new Date(index * DAY_MS);
+    const weekday = date.getUTCDay();
+
+    switch (rule.frequency) {
+      case 'daily':
+        return (index - startIndex) % rule.interval === 0;
+
+      case 'weekly': {
+        const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [new Date(startIndex * DAY_MS).getUTCDay()];
+        if (!weekdays.includes(weekday)) return false;
+        // Count whole weeks from the Sunday of the first occurrence's week
+        const weekStart = startIndex - new Date(startIndex * DAY_MS).getUTCDay();
+        return Math.floor((index - weekStart) / 7) % rule.interval === 0;
+      }
+
+      case 'monthly': {
+        const startDate = new Date(startIndex * DAY_MS);
+        const monthsApart = (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12
+          + date.getUTCMonth() - startDate.getUTCMonth();
+        if (monthsApart % rule.interval !== 0) return false;
+
+        if (rule.weekdays.length === 0) {
+          return date.getUTCDate() === startDate.getUTCDate();
+        }
+        if (!rule.weekdays.includes(weekday)) return false;
+        if (rule.ordinals.length === 0) return true;
+
+        const dayOfMonth = date.getUTCDate();
+        const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+        const position = Math.ceil(dayOfMonth / 7);
+        const isLast = dayOfMonth + 7 > daysInMonth;
+        return rule.ordinals.includes(position) || (isLast && rule.ordinals.includes(-1));
+      }
+    }
+  }
+
+  private dayIndex(day: CalendarDay): number {
+    return Math.floor(Date.UTC(day.year, day.month - 1, day.day) / DAY_MS);
+  }
+
+  private fromDayIndex(index: number): CalendarDay {
+    const date = new Date(index * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+}
+
+export const recurrenceEngine = new RecurrenceEngine();
+export default recurrenceEngine;
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { DebugRecorder } from './debug-bundle';
+
+/**
+ * Per-scrape state that shared clients (HTTP, browser) need but cannot get
+ * from their call sites, e.g. which venue a request belongs to.
+ */
+export interface ScrapeContext {
+  venueId: string;
+  debug?: DebugRecorder; // set when failed scrapes should leave a debug bundle
+}
+
+const storage = new AsyncLocalStorage<ScrapeContext>();
+
+export function runInScrapeContext<T>(context: ScrapeContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+export function getScrapeContext(): ScrapeContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,319 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { formatInTimeZone } from 'date-fns-tz';
+import { EventType } from '../types';
+import { RawEventData } from './event-normalizer';
+import { DEFAULT_TIMEZONE } from './date-parser';
+import { logger } from './logger';
+
+// schema.org Event and its subtypes (MusicEvent, FoodEvent, ...) plus Festival
+const EVENT_TYPE_PATTERN = /^(?:https?:\/\/schema\.org\/)?(?:\w*Event|Festival)$/;
+
+const SCHEMA_TYPE_MAP: Record<string, EventType> = {
+  MusicEvent: 'music',
+  ComedyEvent: 'comedy',
+  FoodEvent: 'food',
+  EducationEvent: 'workshop',
+  Festival: 'special'
+};
+
+// eventStatus values surfaced as tags; "cancelled" is also what the event history looks for
+const STATUS_TAGS: Record<string, string> = {
+  EventCancelled: 'cancelled',
+  EventPostponed: 'postponed',
+  EventRescheduled: 'rescheduled',
+  EventMovedOnline: 'online'
+};
+
+const OFFSET_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type JsonNode = Record<string, unknown>;
+
+export interface StructuredDataOptions {
+  baseUrl?: string;
+  timezone?: string; // used to render start/end times for offset-qualified dates
+}
+
+/**
+ * Pulls schema.org Event objects out of a page, from JSON-LD
+ * (`<script type="application/ld+json">`) and from microdata
+ * (`itemscope itemtype=".../Event"`), and maps them onto RawEventData.
+ */
+export class StructuredDataExtractor {
+  extract($: cheerio.CheerioAPI, options: StructuredDataOptions = {}): RawEventData[] {
+    const events = [
+      ...this.extractJsonLd($, options),
+      ...this.extractMicrodata($, options)
+    ];
+
+    // Sites often publish the same events as JSON-LD and microdata
+    const seen = new Set<string>();
+    return events.filter(event => {
+      const key = `${event.title?.toLowerCase()}|${event.date}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private extractJsonLd($: cheerio.CheerioAPI, options: StructuredDataOptions): RawEventData[] {
+    const events: RawEventData[] = [];
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      const text = $(element).text()
+        .replace(/^\s*<!\[CDATA\[/, '')
+        .replace(/\]\]>\s*$/, '')
+        .trim();
+      if (!text) return;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        logger.debug(`Skipping unparseable JSON-LD block: ${error}`);
+        return;
+      }
+
+      for (const node of this.findEventNodes(data)) {
+        const event = this.mapJsonLdEvent(node, options);
+        if (event) events.push(event);
+      }
+    });
+
+    return events;
+  }
+
+  /**
+   * Walks arrays, @graph containers and nested objects (e.g. Place.event) and
+   * returns every node typed as an event.
+   */
+  private findEventNodes(data: unknown, depth: number = 0): JsonNode[] {
+    if (depth > 8 || !data || typeof data !== 'object') return [];
+
+    if (Array.isArray(data)) {
+      return data.flatMap(item => this.findEventNodes(item, depth + 1));
+    }
+
+    const node = data as JsonNode;
+    if (this.isEventType(node['@type'])) {
+      return [node];
+    }
+
+    return Object.entries(node)
+      .filter(([key]) => key !== '@context')
+      .flatMap(([, value]) => this.findEventNodes(value, depth + 1));
+  }
+
+  private mapJsonLdEvent(node: JsonNode, options: StructuredDataOptions): RawEventData | null {
+    const title = this.decode(this.asString(node.name));
+    const startDate = this.asString(node.startDate);
+    if (!title || !startDate) return null;
+
+    const timing = this.timing(startDate, this.asString(node.endDate), options.timezone);
+    const tags: string[] = [];
+    const status = this.asString(node.eventStatus)?.split('/').pop();
+    if (status && STATUS_TAGS[status]) {
+      tags.push(STATUS_TAGS[status]);
+    }
+
+    return {
+      title,
+      date: startDate,
+      startTime: timing.startTime,
+      endTime: timing.endTime,
+      description: this.decode(this.asString(node.description)),
+      url: this.resolveUrl(this.asString(node.url), options.baseUrl),
+      imageUrl: this.resolveUrl(this.imageUrl(node.image), options.baseUrl),
+      price: this.price(node.offers),
+      location: this.locationName(node.location),
+      type: this.mapType(node['@type']),
+      tags: tags.length > 0 ? tags : undefined
+    };
+  }
+
+  private extractMicrodata($: cheerio.CheerioAPI, options: StructuredDataOptions): RawEventData[] {
+    const events: RawEventData[] = [];
+
+    $('[itemscope][itemtype]').each((_, element) => {
+      const $scope = $(element);
+      const itemType = ($scope.attr('itemtype') || '').split(/\s+/).pop() || '';
+      if (!EVENT_TYPE_PATTERN.test(itemType)) return;
+
+      const prop = (name: string) => this.microdataValue($, $scope, name);
+      const title = this.decode(prop('name'));
+      const startDate = prop('startDate');
+      if (!title || !startDate) return;
+
+      const timing = this.timing(startDate, prop('endDate'), options.timezone);
+      const $location = $scope.find('[itemprop="location"]').first();
+      const location = $location.attr('itemscope') !== undefined
+        ? this.microdataValue($, $location, 'name')
+        : this.decode($location.text());
+      const status = prop('eventStatus')?.split('/').pop();
+      const price = prop('price');
+
+      events.push({
+        title,
+        date: startDate,
+        startTime: timing.startTime,
+        endTime: timing.endTime,
+        description: this.decode(prop('description')),
+        url: this.resolveUrl(prop('url'), options.baseUrl),
+        imageUrl: this.resolveUrl(prop('image'), options.baseUrl),
+        price: price ? this.formatPrice(price, prop('priceCurrency')) : undefined,
+        location: location || undefined,
+        type: this.mapType(itemType.split('/').pop()),
+        tags: status && STATUS_TAGS[status] ? [STATUS_TAGS[status]] : undefined
+      });
+    });
+
+    return events;
+  }
+
+  /**
+   * Reads an itemprop belonging to this item (not to a nested itemscope),
+   * preferring machine-readable attributes over the visible text.
+   */
+  private microdataValue(
+    $: cheerio.CheerioAPI,
+    $scope: cheerio.Cheerio<AnyNode>,
+    name: string
+  ): string | undefined {
+    const $prop = $scope.find(`[itemprop="${name}"]`).filter((_, el) =>
+      $(el).parent().closest('[itemscope]').is($scope)
+    ).first();
+    if ($prop.length === 0) return undefined;
+
+    const value = $prop.attr('content')
+      ?? $prop.attr('datetime')
+      ?? $prop.attr('href')
+      ?? $prop.attr('src')
+      ?? $prop.text();
+    return value.trim() || undefined;
+  }
+
+  /**
+   * schema.org dates are ISO 8601. Start/end clock times are rendered as
+   * "7:00 PM" so listings read the same as scraped ones; the normalizer still
+   * takes the exact instant from the start date.
+   */
+  private timing(
+    startDate: string,
+    endDate: string | undefined,
+    timezone: string = DEFAULT_TIMEZONE
+  ): { startTime?: string; endTime?: string } {
+    const clock = (iso: string): string | undefined => {
+      if (!/T\d{2}:\d{2}/.test(iso)) return undefined;
+      const date = new Date(iso);
+      if (isNaN(date.getTime())) return undefined;
+      return OFFSET_PATTERN.test(iso)
+        ? formatInTimeZone(date, timezone, 'h:mm a')
+        : this.localClock(iso);
+    };
+
+    const startTime = clock(startDate);
+    if (!startTime || !endDate) {
+      return { startTime };
+    }
+
+    // Multi-day events keep only their start time
+    const span = new Date(endDate).getTime() - new Date(startDate).getTime();
+    return span > 0 && span < DAY_MS
+      ? { startTime, endTime: clock(endDate) }
+      : { startTime };
+  }
+
+  /**
+   * "2026-03-04T19:30" (no offset) is already local wall-clock time.
+   */
+  private localClock(iso: string): string {
+    const [hours, minutes] = iso.split('T')[1].split(':').map(Number);
+    const suffix = hours >= 12 ? 'PM' : 'AM';
+    return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+  }
+
+  private price(offers: unknown): string | undefined {
+    const list = (Array.isArray(offers) ? offers : [offers])
+      .filter((o): o is JsonNode => !!o && typeof o === 'object');
+
+    const prices = list
+      .map(offer => ({
+        value: this.asString(offer.price) ?? this.asString(offer.lowPrice),
+        currency: this.asString(offer.priceCurrency)
+      }))
+      .filter((p): p is { value: string; currency: string | undefined } => !!p.value);
+    if (prices.length === 0) return undefined;
+
+    const lowest = prices.reduce((min, p) => (parseFloat(p.value) < parseFloat(min.value) ? p : min));
+    return this.formatPrice(lowest.value, lowest.currency);
+  }
+
+  private formatPrice(value: string, currency?: string): string {
+    const amount = parseFloat(value.replace(/[^0-9.]/g, ''));
+    if (isNaN(amount)) return value;
+    if (amount === 0) return 'Free';
+
+    const formatted = Number.isInteger(amount) ? String(amount) : amount.toFixed(2);
+    return !currency || currency === 'USD' ? `$${formatted}` : `${formatted} ${currency}`;
+  }
+
+  private imageUrl(image: unknown): string | undefined {
+    if (Array.isArray(image)) return this.imageUrl(image[0]);
+    if (typeof image === 'string') return image;
+    if (image && typeof image === 'object') return this.asString((image as JsonNode).url);
+    return undefined;
+  }
+
+  private locationName(location: unknown): string | undefined {
+    if (Array.isArray(location)) return this.locationName(location[0]);
+    if (typeof location === 'string') return this.decode(location);
+    if (location && typeof location === 'object') {
+      return this.decode(this.asString((location as JsonNode).name));
+    }
+    return undefined;
+  }
+
+  private mapType(type: unknown): EventType | undefined {
+    const types = Array.isArray(type) ? type : [type];
+    for (const t of types) {
+      const name = typeof t === 'string' ? t.split('/').pop() : undefined;
+      if (name && SCHEMA_TYPE_MAP[name]) return SCHEMA_TYPE_MAP[name];
+    }
+    return undefined;
+  }
+
+  private isEventType(type: unknown): boolean {
+    const types = Array.isArray(type) ? type : [type];
+    return types.some(t => typeof t === 'string' && EVENT_TYPE_PATTERN.test(t));
+  }
+
+  private resolveUrl(url: string | undefined, baseUrl?: string): string | undefined {
+    if (!url) return undefined;
+    try {
+      const resolved = new URL(url, baseUrl);
+      return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private asString(value: unknown): string | undefined {
+    if (typeof value === 'string') return value.trim() || undefined;
+    if (typeof value === 'number') return String(value);
+    return undefined;
+  }
+
+  /**
+   * JSON-LD text frequently carries HTML entities and markup (WordPress in
+   * particular); reduce it to plain text.
+   */
+  private decode(text: string | undefined): string | undefined {
+    if (!text) return undefined;
+    const plain = cheerio.load(text, null, false).text().replace(/\s+/g, ' ').trim();
+    return plain || undefined;
+  }
+}
+
+export const structuredDataExtractor = new StructuredDataExtractor();
+export default structuredDataExtractor;
@@ -2,7 +2,9 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { Event } from '../types';
 import { VenueStatus, VenueStatusFile, StalenessReport } from '../types/venue-status';
+import { formatInTimeZone } from 'date-fns-tz';
 import { logger } from './logger';
+import { DEFAULT_TIMEZONE } from './date-parser';
 
 const STATUS_FILE = 'venue-status.json';
 const MAX_HISTORY_ENTRIES = 10;
@@ -12,6 +14,7 @@ const CONSECUTIVE_EMPTY_THRESHOLD = 3;
 export class VenueStatusManager {
   private outputDir: string;
   private statusFile: VenueStatusFile | null = null;
+  private loading: Promise<VenueStatusFile> | null = null;
 
   constructor(outputDir: string = 'output') {
     this.outputDir = outputDir;
@@ -26,6 +29,14 @@ export class VenueStatusManager {
       return this.statusFile;
     }
 
+    // Venues scraped in parallel all call load(); make sure they share one file object
+    if (!this.loading) {
+      this.loading = this.readStatusFile();
+    }
+    return this.loading;
+  }
+
+  private async readStatusFile(): Promise<VenueStatusFile> {
     try {
       const content = await fs.readFile(this.filePath, 'utf-8');
       this.statusFile = JSON.parse(content) as VenueStatusFile;
@@ -56,13 +67,24 @@ export class VenueStatusManager {
     logger.debug(`Venue status saved to ${this.filePath}`);
   }
 
+  /**
+   * Keeps events whose (last) day is today or later, comparing calendar days in
+   * each venue's own timezone so evening events aren't shifted across midnight UTC.
+   */
   filterFutureEvents(events: Event[], asOfDate: Date = new Date()): Event[] {
     const startOfDay = new Date(asOfDate);
     startOfDay.setHours(0, 0, 0, 0);
 
     return events.filter(event => {
-      const eventDate = new Date(event.date);
-      return eventDate >= startOfDay;
+      const zoned = event.end ?? event.start;
+      if (!zoned) {
+        return new Date(event.date) >= startOfDay;
+      }
+
+      const timezone = event.venue.timezone || DEFAULT_TIMEZONE;
+      const today = formatInTimeZone(asOfDate, timezone, 'yyyy-MM-dd');
+      // Zoned ISO strings start with the local calendar date
+      return zoned.substring(0, 10) >= today;
     });
   }
 
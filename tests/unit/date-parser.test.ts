@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { dateParser } from '../../src/utils/date-parser';
+
+describe('DateParser.splitTimeRange', () => {
+  it('splits ranges on dashes and words', () => {
+    assert.deepEqual(dateParser.splitTimeRange('11:00 AM - 04:00 PM'), { start: '11:00 AM', end: '04:00 PM' });
+    assert.deepEqual(dateParser.splitTimeRange('6pm – 9pm'), { start: '6pm', end: '9pm' });
+    assert.deepEqual(dateParser.splitTimeRange('Noon until 4pm'), { start: 'Noon', end: '4pm' });
+  });
+
+  it('leaves a single time alone', () => {
+    assert.deepEqual(dateParser.splitTimeRange(' 7:30 PM '), { start: '7:30 PM' });
+  });
+
+  it('gives a bare start the end\'s am/pm', () => {
+    assert.deepEqual(dateParser.splitTimeRange('7-9pm'), { start: '7 pm', end: '9pm' });
+    assert.deepEqual(dateParser.splitTimeRange('5 to 8 p.m.'), { start: '5 pm', end: '8 p.m.' });
+    assert.deepEqual(dateParser.splitTimeRange('12-3pm'), { start: '12 pm', end: '3pm' });
+  });
+
+  it('keeps a borrowed period from putting the start after the end', () => {
+    assert.deepEqual(dateParser.splitTimeRange('11-2pm'), { start: '11 am', end: '2pm' });
+  });
+});
+
+describe('DateParser.toZonedInstant', () => {
+  it('reads the wall clock in the venue\'s timezone', () => {
+    const summer = dateParser.toZonedInstant({ year: 2026, month: 10, day: 20 }, { hours: 19, minutes: 0 }, 'America/Los_Angeles');
+    assert.equal(summer.toISOString(), '2026-10-21T02:00:00.000Z');
+
+    const winter = dateParser.toZonedInstant({ year: 2026, month: 12, day: 5 }, { hours: 19, minutes: 30 }, 'America/Los_Angeles');
+    assert.equal(winter.toISOString(), '2026-12-06T03:30:00.000Z');
+  });
+
+  it('uses midnight when there is no time', () => {
+    const instant = dateParser.toZonedInstant({ year: 2026, month: 10, day: 24 }, null, 'America/New_York');
+    assert.equal(instant.toISOString(), '2026-10-24T04:00:00.000Z');
+  });
+
+  it('round-trips through toZonedISOString', () => {
+    const instant = dateParser.toZonedInstant({ year: 2026, month: 11, day: 1 }, { hours: 18, minutes: 0 }, 'America/Los_Angeles');
+    assert.equal(dateParser.toZonedISOString(instant, 'America/Los_Angeles'), '2026-11-01T18:00:00-08:00');
+  });
+});
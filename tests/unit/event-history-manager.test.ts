@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { EventHistoryManager } from '../../src/utils/event-history-manager';
+import { Event } from '../../src/types';
+
+const VENUE = 'test-brewery';
+const RUN_1 = new Date('2026-10-15T17:00:00Z');
+const RUN_2 = new Date('2026-10-16T17:00:00Z');
+
+function makeEvent(overrides: Partial<Event> & Pick<Event, 'id' | 'title' | 'date'>): Event {
+  return {
+    venue: { name: 'Test Brewery', timezone: 'America/Los_Angeles' },
+    tags: [],
+    isRecurring: false,
+    scrapedAt: new Date().toISOString(),
+    source: VENUE,
+    confidence: 1,
+    ...overrides
+  };
+}
+
+// Never saved, so the directory doesn't need to exist
+function newManager(): EventHistoryManager {
+  return new EventHistoryManager(path.join(os.tmpdir(), `event-history-test-${process.pid}-${Math.random()}`));
+}
+
+const trivia = makeEvent({ id: 'evt-trivia', title: 'Trivia Night', date: '2026-10-22', start: '2026-10-22T19:00:00-07:00', price: '$5' });
+const bbq = makeEvent({ id: 'evt-bbq', title: 'BBQ Pop-up', date: '2026-10-24', start: '2026-10-24T12:00:00-07:00' });
+
+describe('EventHistoryManager.recordRun', () => {
+  it('reports everything as new on the first run', async () => {
+    const changes = await newManager().recordRun([trivia, bbq], [VENUE], RUN_1);
+    assert.deepEqual(changes.new.map(e => e.id), ['evt-trivia', 'evt-bbq']);
+    assert.equal(changes.since, null);
+  });
+
+  it('ignores fields that change on every scrape', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const changes = await manager.recordRun(
+      [{ ...trivia, scrapedAt: RUN_2.toISOString() }, bbq],
+      [VENUE],
+      RUN_2
+    );
+
+    assert.deepEqual(changes.new, []);
+    assert.deepEqual(changes.changed, []);
+    assert.equal((await manager.getEntry('evt-trivia'))?.sequence, 0);
+  });
+
+  it('reports edited fields and bumps the sequence', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const changes = await manager.recordRun([{ ...trivia, price: '$10' }, bbq], [VENUE], RUN_2);
+
+    assert.equal(changes.changed.length, 1);
+    assert.equal(changes.changed[0].event.id, 'evt-trivia');
+    assert.deepEqual(changes.changed[0].changes.map(({ field, before, after }) => ({ field, before, after })), [
+      { field: 'price', before: '$5', after: '$10' }
+    ]);
+    assert.equal((await manager.getEntry('evt-trivia'))?.sequence, 1);
+  });
+
+  it('treats an upcoming event that disappeared as cancelled', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const changes = await manager.recordRun([trivia], [VENUE], RUN_2);
+
+    assert.deepEqual(changes.cancelled.map(e => e.id), ['evt-bbq']);
+    assert.equal((await manager.getEntry('evt-bbq'))?.status, 'cancelled');
+  });
+
+  it('pairs a disappeared event with a new one of the same title as a reschedule', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const moved = makeEvent({ id: 'evt-bbq-2', title: 'BBQ Pop-Up!', date: '2026-10-31', start: '2026-10-31T12:00:00-07:00' });
+    const changes = await manager.recordRun([trivia, moved], [VENUE], RUN_2);
+
+    assert.deepEqual(changes.rescheduled.map(r => [r.from.id, r.to.id]), [['evt-bbq', 'evt-bbq-2']]);
+    assert.deepEqual(changes.new, []);
+    assert.deepEqual(changes.cancelled, []);
+  });
+
+  it('retires events whose day has passed without reporting them', async () => {
+    const manager = newManager();
+    const yesterday = makeEvent({ id: 'evt-old', title: 'Oktoberfest', date: '2026-10-15', start: '2026-10-15T12:00:00-07:00' });
+    await manager.recordRun([trivia, yesterday], [VENUE], RUN_1);
+    const changes = await manager.recordRun([trivia], [VENUE], RUN_2);
+
+    assert.deepEqual(changes.cancelled, []);
+    assert.equal((await manager.getEntry('evt-old'))?.status, 'past');
+  });
+
+  it('leaves events alone when their venue was not scraped this run', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const changes = await manager.recordRun([], [], RUN_2);
+
+    assert.deepEqual(changes.cancelled, []);
+    assert.equal((await manager.getEntry('evt-bbq'))?.status, 'active');
+  });
+
+  it('does not cancel anything when a venue succeeds with no events', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const changes = await manager.recordRun([], [VENUE], RUN_2);
+
+    assert.deepEqual(changes.cancelled, []);
+    assert.equal((await manager.getEntry('evt-trivia'))?.status, 'active');
+    assert.equal((await manager.getEntry('evt-bbq'))?.status, 'active');
+  });
+
+  it('does not cancel anything when a venue\'s listing shrinks below half', async () => {
+    const manager = newManager();
+    const more = ['evt-a', 'evt-b', 'evt-c'].map(id =>
+      makeEvent({ id, title: `Music ${id}`, date: '2026-10-30', start: '2026-10-30T19:00:00-07:00' }));
+    await manager.recordRun([trivia, bbq, ...more], [VENUE], RUN_1);
+    const changes = await manager.recordRun([trivia], [VENUE], RUN_2);
+
+    assert.deepEqual(changes.cancelled, []);
+    assert.equal((await manager.getEntry('evt-bbq'))?.status, 'active');
+  });
+
+  it('reports a title marked cancelled as a cancellation', async () => {
+    const manager = newManager();
+    await manager.recordRun([trivia, bbq], [VENUE], RUN_1);
+    const changes = await manager.recordRun(
+      [trivia, { ...bbq, title: 'CANCELLED: BBQ Pop-up' }],
+      [VENUE],
+      RUN_2
+    );
+
+    assert.deepEqual(changes.cancelled.map(e => e.id), ['evt-bbq']);
+  });
+});
+
+describe('EventHistoryManager recurring series', () => {
+  const series = (id: string, date: string) => makeEvent({
+    id,
+    title: 'Taco Tuesday',
+    date,
+    start: `${date}T17:00:00-07:00`,
+    isRecurring: true,
+    recurringPattern: 'weekly:tuesday'
+  });
+
+  it('does not report a series as changed when its next date moves forward', async () => {
+    const manager = newManager();
+    await manager.recordRun([series('evt-tacos', '2026-10-20')], [VENUE], RUN_1);
+    const changes = await manager.recordRun([series('evt-tacos', '2026-10-27')], [VENUE], new Date('2026-10-21T17:00:00Z'));
+
+    assert.deepEqual(changes.new, []);
+    assert.deepEqual(changes.changed, []);
+  });
+
+  it('carries a date-keyed entry over to the series entry', async () => {
+    const manager = newManager();
+    await manager.recordRun([series('evt-tacos-1020', '2026-10-20')], [VENUE], RUN_1);
+    const changes = await manager.recordRun([series('evt-tacos', '2026-10-27')], [VENUE], new Date('2026-10-21T17:00:00Z'));
+
+    assert.deepEqual(changes.new, []);
+    assert.deepEqual(changes.cancelled, []);
+    assert.equal(await manager.getEntry('evt-tacos-1020'), null);
+    assert.equal((await manager.getEntry('evt-tacos'))?.firstSeenAt, RUN_1.toISOString());
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { fieldExtractor, FieldExtractOptions, LINK_ATTRS } from '../../src/utils/field-extractor';
+import { FieldSchema } from '../../src/types';
+
+const $ = cheerio.load(`
+  <article class="event">
+    <h3 class="title">  Trivia
+      Night </h3>
+    <time datetime="2026-10-22">Thu, Oct 22</time>
+    <span class="time">7 - 9pm</span>
+    <ul class="tags"><li>Games</li><li>Prizes</li></ul>
+    <p class="price">Tickets: $10 at the door</p>
+    <a class="more" href="/events/trivia">Details</a>
+    <a class="tickets" href="mailto:box@example.com">Email us</a>
+  </article>
+`);
+const $event = $('article.event');
+
+const extract = (field: unknown, options?: FieldExtractOptions) =>
+  fieldExtractor.extract($, $event, FieldSchema.parse(field), options);
+
+describe('FieldExtractor', () => {
+  it('reads a plain selector as collapsed text', () => {
+    assert.equal(extract('.title'), 'Trivia Night');
+  });
+
+  it('reads the first match unless all matches are asked for', () => {
+    assert.equal(extract('.tags li'), 'Games');
+    assert.equal(extract('.tags li', { allMatches: true }), 'GamesPrizes');
+  });
+
+  it('reads attributes, falling back to the default attributes', () => {
+    assert.equal(extract({ selector: 'time', attr: 'datetime' }), '2026-10-22');
+    assert.equal(extract('a.more', { defaultAttrs: LINK_ATTRS }), '/events/trivia');
+  });
+
+  it('joins every match with the rule\'s separator', () => {
+    assert.equal(extract({ selector: '.tags li', join: ', ' }), 'Games, Prizes');
+  });
+
+  it('applies the regex before the transforms', () => {
+    const field = {
+      selector: '.price',
+      regex: 'tickets:\\s*(\\S+)',
+      transforms: [{ replace: '\\$', with: 'USD ' }, 'lowercase']
+    };
+    assert.equal(extract(field), 'usd 10');
+  });
+
+  it('splits time ranges', () => {
+    assert.equal(extract({ selector: '.time', transforms: [{ range: 'start' }] }), '7 pm');
+    assert.equal(extract({ selector: '.time', transforms: [{ range: 'end' }] }), '9pm');
+  });
+
+  it('strips prefixes and suffixes case-insensitively', () => {
+    assert.equal(extract({ selector: '.price', transforms: [{ stripPrefix: 'TICKETS:' }, { stripSuffix: 'AT THE DOOR' }, 'trim'] }), '$10');
+  });
+
+  it('tries fallbacks in order and ends with the default', () => {
+    assert.equal(extract(['.missing', '.title']), 'Trivia Night');
+    assert.equal(extract([{ selector: '.missing' }, { selector: '.also-missing', default: 'TBA' }]), 'TBA');
+    assert.equal(extract('.missing'), undefined);
+  });
+
+  it('resolves URLs against the base and drops non-web schemes', () => {
+    const options = { defaultAttrs: LINK_ATTRS, baseUrl: 'https://venue.example/calendar/' };
+    assert.equal(extract('a.more', options), 'https://venue.example/events/trivia');
+    assert.equal(extract('a.tickets', options), undefined);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { jsonEventExtractor } from '../../src/utils/json-events';
+
+const TIMEZONE = 'America/Los_Angeles';
+
+describe('JsonEventExtractor', () => {
+  it('unwraps Google Calendar items and renders offset times in the venue timezone', () => {
+    const events = jsonEventExtractor.extract({
+      kind: 'calendar#events',
+      items: [{
+        summary: 'Trivia Night',
+        description: '<p>Teams of <b>six</b></p>',
+        htmlLink: 'https://calendar.example/event?eid=abc',
+        start: { dateTime: '2026-10-23T02:00:00Z' },
+        end: { dateTime: '2026-10-23T04:00:00Z' }
+      }]
+    }, { timezone: TIMEZONE });
+
+    assert.deepEqual(events, [{
+      title: 'Trivia Night',
+      date: '2026-10-22T19:00:00-07:00',
+      startTime: '7:00 PM',
+      endTime: '9:00 PM',
+      description: 'Teams of six',
+      url: 'https://calendar.example/event?eid=abc',
+      imageUrl: undefined,
+      price: undefined,
+      location: undefined
+    }]);
+  });
+
+  it('reads WordPress-style rendered titles and local datetimes', () => {
+    const [event] = jsonEventExtractor.extract([{
+      id: 12,
+      title: { rendered: 'Wine &amp; Cheese' },
+      start_date: '2026-10-24 18:00:00',
+      link: '/events/wine-and-cheese/',
+      featured_image: { src: '/uploads/wine.jpg' },
+      cost: '$25',
+      venue: { name: 'The Barrel Room' }
+    }], { baseUrl: 'https://winery.example/' });
+
+    assert.equal(event.title, 'Wine & Cheese');
+    assert.equal(event.date, '2026-10-24 18:00:00');
+    assert.equal(event.startTime, '6:00 PM');
+    assert.equal(event.url, 'https://winery.example/events/wine-and-cheese/');
+    assert.equal(event.imageUrl, 'https://winery.example/uploads/wine.jpg');
+    assert.equal(event.price, '$25');
+    assert.equal(event.location, 'The Barrel Room');
+  });
+
+  it('reads epoch seconds as instants', () => {
+    const [event] = jsonEventExtractor.extract([{ name: 'Live Music', startsAt: 1792634400 }], { timezone: TIMEZONE });
+    assert.equal(event.date, '2026-10-21T19:00:00-07:00');
+    assert.equal(event.startTime, '7:00 PM');
+  });
+
+  it('drops the end time of multi-day events', () => {
+    const [event] = jsonEventExtractor.extract([{
+      title: 'Harvest Festival',
+      start: '2026-10-24T10:00:00-07:00',
+      end: '2026-10-25T17:00:00-07:00'
+    }], { timezone: TIMEZONE });
+    assert.equal(event.startTime, '10:00 AM');
+    assert.equal(event.endTime, undefined);
+  });
+
+  it('ignores arrays where events are the exception', () => {
+    const events = jsonEventExtractor.extract({
+      settings: [
+        { name: 'Theme', date: '2026-01-01' },
+        { name: 'Colors' },
+        { name: 'Fonts' }
+      ]
+    });
+    assert.deepEqual(events, []);
+  });
+
+  it('skips items without a title or start', () => {
+    const events = jsonEventExtractor.extract([
+      { title: 'Open Mic', date: 'Friday, October 23' },
+      { title: 'Bingo', date: '2026-10-30' },
+      { title: 'No date yet' },
+      { date: '2026-10-31' }
+    ]);
+    assert.deepEqual(events.map(e => e.title), ['Open Mic', 'Bingo']);
+    assert.equal(events[0].date, 'Friday, October 23');
+    assert.equal(events[0].startTime, undefined);
+  });
+});
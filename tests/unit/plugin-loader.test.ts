@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { isScraperClass } from '../../src/scrapers/plugin-loader';
+import { BaseScraper } from '../../src/core/base-scraper';
+import { GenericScraper } from '../../src/scrapers/custom/generic-scraper';
+import { RawEventData } from '../../src/utils/event-normalizer';
+
+class PluginScraper extends BaseScraper {
+  protected async parseEvents(_$: cheerio.CheerioAPI): Promise<RawEventData[]> {
+    return [];
+  }
+}
+
+// What a plugin sees when it resolved its own copy of the library
+function foreignBaseScraper() {
+  return class BaseScraper {
+    async scrape(): Promise<unknown> {
+      return null;
+    }
+  };
+}
+
+describe('isScraperClass', () => {
+  it('accepts subclasses of BaseScraper, directly or through a platform scraper', () => {
+    assert.equal(isScraperClass(PluginScraper), true);
+    assert.equal(isScraperClass(GenericScraper), true);
+    assert.equal(isScraperClass(class extends GenericScraper {}), true);
+  });
+
+  it('accepts subclasses of another copy of BaseScraper with the same surface', () => {
+    const ForeignBase = foreignBaseScraper();
+    class ForeignPlugin extends ForeignBase {
+      async parseEvents(): Promise<unknown[]> {
+        return [];
+      }
+    }
+    assert.equal(isScraperClass(ForeignPlugin), true);
+  });
+
+  it('rejects look-alikes missing parseEvents', () => {
+    const ForeignBase = foreignBaseScraper();
+    assert.equal(isScraperClass(class Incomplete extends ForeignBase {}), false);
+  });
+
+  it('rejects unrelated values', () => {
+    assert.equal(isScraperClass(class Unrelated {}), false);
+    assert.equal(isScraperClass(() => null), false);
+    assert.equal(isScraperClass({ scrape() {}, parseEvents() {} }), false);
+    assert.equal(isScraperClass(undefined), false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { recurrenceEngine } from '../../src/utils/recurrence';
+import type { CalendarDay } from '../../src/utils/date-parser';
+
+const day = (iso: string): CalendarDay => {
+  const [year, month, dayOfMonth] = iso.split('-').map(Number);
+  return { year, month, day: dayOfMonth };
+};
+const iso = (d: CalendarDay): string =>
+  `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+const rule = (pattern: string) => {
+  const parsed = recurrenceEngine.parsePattern(pattern);
+  assert.ok(parsed, `expected "${pattern}" to parse`);
+  return parsed;
+};
+
+describe('RecurrenceEngine.parsePattern', () => {
+  it('reads frequency, interval, ordinals and weekdays', () => {
+    assert.deepEqual(rule('weekly:monday'), { frequency: 'weekly', interval: 1, weekdays: [1], ordinals: [] });
+    assert.deepEqual(rule('weekly/2:tuesday'), { frequency: 'weekly', interval: 2, weekdays: [2], ordinals: [] });
+    assert.deepEqual(rule('monthly:1,3:thursday'), { frequency: 'monthly', interval: 1, weekdays: [4], ordinals: [1, 3] });
+    assert.deepEqual(rule('monthly:-1:friday'), { frequency: 'monthly', interval: 1, weekdays: [5], ordinals: [-1] });
+    assert.deepEqual(rule('daily'), { frequency: 'daily', interval: 1, weekdays: [], ordinals: [] });
+  });
+
+  it('rejects unknown frequencies, days and positions', () => {
+    assert.equal(recurrenceEngine.parsePattern('yearly'), null);
+    assert.equal(recurrenceEngine.parsePattern('weekly:funday'), null);
+    assert.equal(recurrenceEngine.parsePattern('monthly:0:friday'), null);
+    assert.equal(recurrenceEngine.parsePattern('monthly:6:friday'), null);
+    assert.equal(recurrenceEngine.parsePattern('weekly:1:2:monday'), null);
+  });
+
+  it('round-trips through toPattern', () => {
+    for (const pattern of ['daily', 'weekly:monday', 'weekly/2:tuesday', 'monthly:1,3:thursday', 'monthly:-1:friday']) {
+      assert.equal(recurrenceEngine.toPattern(rule(pattern)), pattern);
+    }
+  });
+});
+
+describe('RecurrenceEngine.toRRule', () => {
+  it('writes BYDAY with ordinals for monthly rules', () => {
+    assert.equal(recurrenceEngine.toRRule(rule('weekly:monday')), 'FREQ=WEEKLY;BYDAY=MO');
+    assert.equal(recurrenceEngine.toRRule(rule('weekly/2:tuesday')), 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU');
+    assert.equal(recurrenceEngine.toRRule(rule('monthly:1,3:thursday')), 'FREQ=MONTHLY;BYDAY=1TH,3TH');
+    assert.equal(recurrenceEngine.toRRule(rule('monthly:-1:friday')), 'FREQ=MONTHLY;BYDAY=-1FR');
+    assert.equal(recurrenceEngine.toRRule(rule('daily')), 'FREQ=DAILY');
+  });
+});
+
+describe('RecurrenceEngine.describe', () => {
+  it('reads like the venue would write it', () => {
+    assert.equal(recurrenceEngine.describe(rule('weekly:monday')), 'every Monday');
+    assert.equal(recurrenceEngine.describe(rule('weekly/2:tuesday')), 'every other Tuesday');
+    assert.equal(recurrenceEngine.describe(rule('monthly:1,3:thursday')), '1st and 3rd Thursday of the month');
+    assert.equal(recurrenceEngine.describe(rule('monthly:-1:friday')), 'last Friday of the month');
+    assert.equal(recurrenceEngine.describe(rule('daily')), 'every day');
+  });
+});
+
+describe('RecurrenceEngine.expand', () => {
+  it('lists weekly occurrences within the horizon', () => {
+    const days = recurrenceEngine.expand(rule('weekly:thursday'), day('2026-10-01'), 28).map(iso);
+    assert.deepEqual(days, ['2026-10-01', '2026-10-08', '2026-10-15', '2026-10-22', '2026-10-29']);
+  });
+
+  it('keeps every-other-week rules in phase with the first occurrence', () => {
+    const days = recurrenceEngine.expand(rule('weekly/2:tuesday'), day('2026-10-06'), 30).map(iso);
+    assert.deepEqual(days, ['2026-10-06', '2026-10-20', '2026-11-03']);
+  });
+
+  it('finds ordinal and last weekdays of the month', () => {
+    assert.deepEqual(
+      recurrenceEngine.expand(rule('monthly:1,3:thursday'), day('2026-10-01'), 45).map(iso),
+      ['2026-10-01', '2026-10-15', '2026-11-05']
+    );
+    assert.deepEqual(
+      recurrenceEngine.expand(rule('monthly:-1:friday'), day('2026-10-30'), 40).map(iso),
+      ['2026-10-30', '2026-11-27']
+    );
+  });
+
+  it('repeats plain monthly rules on the first occurrence\'s day of month', () => {
+    const days = recurrenceEngine.expand(rule('monthly'), day('2026-10-15'), 70).map(iso);
+    assert.deepEqual(days, ['2026-10-15', '2026-11-15', '2026-12-15']);
+  });
+});
+
+describe('RecurrenceEngine.nextOccurrence', () => {
+  it('returns the first matching day on or after the given day', () => {
+    const next = recurrenceEngine.nextOccurrence(rule('weekly:monday'), day('2026-10-15'));
+    assert.equal(next && iso(next), '2026-10-19');
+  });
+
+  it('uses the series start for the phase of interval rules', () => {
+    const next = recurrenceEngine.nextOccurrence(rule('weekly/2:tuesday'), day('2026-10-07'), day('2026-10-06'));
+    assert.equal(next && iso(next), '2026-10-20');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { structuredDataExtractor } from '../../src/utils/structured-data';
+
+const TIMEZONE = 'America/Los_Angeles';
+
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+describe('StructuredDataExtractor JSON-LD', () => {
+  it('maps schema.org events found inside @graph', () => {
+    const $ = cheerio.load(jsonLd({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'Events' },
+        {
+          '@type': 'MusicEvent',
+          name: 'Rock &amp; Roll Night',
+          startDate: '2026-10-23T19:00:00-07:00',
+          endDate: '2026-10-23T22:00:00-07:00',
+          description: '<p>Three bands.</p>',
+          url: '/events/rock-night',
+          image: ['/img/rock.jpg'],
+          location: { '@type': 'Place', name: 'The Taproom' },
+          offers: [{ price: '15', priceCurrency: 'USD' }, { price: '12.5', priceCurrency: 'USD' }],
+          eventStatus: 'https://schema.org/EventPostponed'
+        }
+      ]
+    }));
+
+    assert.deepEqual(structuredDataExtractor.extract($, { baseUrl: 'https://brewery.example/', timezone: TIMEZONE }), [{
+      title: 'Rock & Roll Night',
+      date: '2026-10-23T19:00:00-07:00',
+      startTime: '7:00 PM',
+      endTime: '10:00 PM',
+      description: 'Three bands.',
+      url: 'https://brewery.example/events/rock-night',
+      imageUrl: 'https://brewery.example/img/rock.jpg',
+      price: '$12.50',
+      location: 'The Taproom',
+      type: 'music',
+      tags: ['postponed']
+    }]);
+  });
+
+  it('renders offset times in the venue timezone and local times as written', () => {
+    const $ = cheerio.load(
+      jsonLd({ '@type': 'Event', name: 'UTC Event', startDate: '2026-12-05T03:30:00Z' }) +
+      jsonLd({ '@type': 'Event', name: 'Local Event', startDate: '2026-12-05T18:15' })
+    );
+    const events = structuredDataExtractor.extract($, { timezone: TIMEZONE });
+    assert.deepEqual(events.map(e => e.startTime), ['7:30 PM', '6:15 PM']);
+  });
+
+  it('treats a zero price as free and keeps only the start of multi-day events', () => {
+    const $ = cheerio.load(jsonLd({
+      '@type': 'Festival',
+      name: 'Harvest Fest',
+      startDate: '2026-10-24T10:00:00-07:00',
+      endDate: '2026-10-25T17:00:00-07:00',
+      offers: { price: 0 }
+    }));
+    const [event] = structuredDataExtractor.extract($, { timezone: TIMEZONE });
+    assert.equal(event.price, 'Free');
+    assert.equal(event.type, 'special');
+    assert.equal(event.endTime, undefined);
+  });
+
+  it('skips unparseable blocks and nodes without a name or start', () => {
+    const $ = cheerio.load(
+      '<script type="application/ld+json">{ not json </script>' +
+      jsonLd([{ '@type': 'Event', name: 'No Date' }, { '@type': 'Event', startDate: '2026-10-30' }])
+    );
+    assert.deepEqual(structuredDataExtractor.extract($), []);
+  });
+});
+
+describe('StructuredDataExtractor microdata', () => {
+  it('reads itemprops of the event, not of nested items', () => {
+    const $ = cheerio.load(`
+      <div itemscope itemtype="https://schema.org/FoodEvent">
+        <h3 itemprop="name">Taco Tuesday</h3>
+        <time itemprop="startDate" datetime="2026-10-27T17:00">Oct 27, 5pm</time>
+        <div itemprop="location" itemscope itemtype="https://schema.org/Place">
+          <span itemprop="name">Beer Garden</span>
+        </div>
+        <span itemprop="price" content="0">Free</span>
+        <meta itemprop="eventStatus" content="https://schema.org/EventCancelled">
+      </div>
+    `);
+
+    assert.deepEqual(structuredDataExtractor.extract($), [{
+      title: 'Taco Tuesday',
+      date: '2026-10-27T17:00',
+      startTime: '5:00 PM',
+      endTime: undefined,
+      description: undefined,
+      url: undefined,
+      imageUrl: undefined,
+      price: 'Free',
+      location: 'Beer Garden',
+      type: 'food',
+      tags: ['cancelled']
+    }]);
+  });
+
+  it('drops microdata duplicates of JSON-LD events', () => {
+    const $ = cheerio.load(
+      jsonLd({ '@type': 'Event', name: 'Trivia', startDate: '2026-10-22' }) +
+      '<div itemscope itemtype="http://schema.org/Event"><span itemprop="name">trivia</span>' +
+      '<meta itemprop="startDate" content="2026-10-22"></div>'
+    );
+    assert.equal(structuredDataExtractor.extract($).length, 1);
+  });
+});